@@ -0,0 +1,41 @@
+// @ts-ignore
+import React from "react"
+import { render, waitFor } from "@testing-library/react"
+import { EquationRef, MathJax, MathJaxContext } from "../index"
+import { createLocalLoader } from "../MathJaxLocal"
+
+const loader = createLocalLoader({ output: "chtml" })
+const config = { tex: { tags: "ams" }, startup: { typeset: false } }
+
+const getComponent = (first: boolean) => (
+    <MathJaxContext loader={loader} config={config} equationNumbering>
+        {first && (
+            <MathJax id="first" dynamic={false}>
+                {"\\begin{equation}a \\label{first}\\end{equation} see \\(\\eqref{second}\\)"}
+            </MathJax>
+        )}
+        <MathJax id="second" dynamic={false}>{"\\begin{equation}b \\label{second}\\end{equation}"}</MathJax>
+        <EquationRef id="ref" label="second" eqref />
+    </MathJaxContext>
+)
+
+it("numbers equations across MathJax components and renumbers them when an equation is removed", async () => {
+    const { container, rerender } = render(getComponent(true))
+    await waitFor(() => expect(container.querySelector("#ref")?.textContent).toBe("(2)"), { timeout: 10000 })
+    // the reference to the equation of the second component is resolved in the first component (CHTML output shows
+    // characters with CSS classes named after their code points)
+    expect(container.querySelector("#first [href] mjx-c.mjx-c32")).not.toBeNull()
+    expect(container.querySelector("#ref")?.getAttribute("href")).toBe("#mjx-eqn%3Asecond")
+    rerender(getComponent(false))
+    await waitFor(() => expect(container.querySelector("#ref")?.textContent).toBe("(1)"), { timeout: 10000 })
+    expect(container.querySelector("#second [id='mjx-eqn:second'] mjx-c.mjx-c31")).not.toBeNull()
+}, 15000)
+
+it("shows the fallback for labels which are not defined", async () => {
+    const { container } = render(
+        <MathJaxContext loader={loader} config={config} equationNumbering>
+            <EquationRef label="missing" fallback={<span id="fallback" />} />
+        </MathJaxContext>
+    )
+    expect(container.querySelector("#fallback")).not.toBeNull()
+})
@@ -0,0 +1,45 @@
+import React, { ComponentPropsWithoutRef, FC, ReactNode, useContext, useEffect, useState } from "react"
+import { MathJaxBaseContext } from "../MathJaxContext"
+
+export interface EquationRefProps {
+    label: string
+    // whether to put the number in parentheses like \eqref in TeX, rather than showing it as is like \ref
+    eqref?: boolean
+    // shown as long as no equation in the MathJaxContext has the label
+    fallback?: ReactNode
+}
+
+/**
+ * Link to the equation with the given label (set with \label in TeX) in any MathJax component of the closest
+ * MathJaxContext, which must have equation numbering. The number is updated every time the equations are numbered.
+ */
+const EquationRef: FC<EquationRefProps & ComponentPropsWithoutRef<"a">> = ({
+    label,
+    eqref = false,
+    fallback = "???",
+    ...rest
+}) => {
+    const equations = useContext(MathJaxBaseContext)?.equations
+    const [equation, setEquation] = useState(() => equations?.label(label))
+
+    useEffect(() => {
+        if(typeof equations === "undefined") return
+        setEquation(equations.label(label))
+        return equations.onLabelsChanged(() => setEquation(equations.label(label)))
+    }, [equations, label])
+
+    if(typeof equations === "undefined")
+        throw Error(
+            "Equations can only be referenced in a MathJaxContext with equation numbering, did you use the " +
+            "EquationRef component outside of a MathJaxContext or without setting equationNumbering on it?"
+        )
+
+    if(typeof equation === "undefined") return <>{fallback}</>
+    return (
+        <a href={`#${encodeURIComponent(equation.id)}`} {...rest}>
+            {eqref ? `(${equation.tag})` : equation.tag}
+        </a>
+    )
+}
+
+export default EquationRef
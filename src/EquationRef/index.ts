@@ -0,0 +1 @@
+export { default as EquationRef, default, EquationRefProps } from "./EquationRef"
@@ -0,0 +1,53 @@
+import { observeContent } from "./ContentObserver"
+import type { TypesettingScheduler } from "../MathJaxContext/TypesettingScheduler"
+
+const createScheduler = () => {
+    let batchListener: (typesetting: boolean, elements: HTMLElement[] | null) => void = () => undefined
+    const scheduler: TypesettingScheduler = {
+        typeset: jest.fn(),
+        renumber: jest.fn(),
+        onBatch: (listener) => {
+            batchListener = listener
+            return () => undefined
+        }
+    }
+    const batch = (typesetting: boolean, elements: HTMLElement[] | null) => batchListener(typesetting, elements)
+    return { scheduler, batch }
+}
+
+// mutation observers are notified in a microtask
+const observed = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+it("reports changes made while other elements are typeset and discards those MathJax makes to the element", async () => {
+    const element = document.createElement("span")
+    const child = document.createElement("span")
+    child.textContent = "\\(x\\)"
+    element.appendChild(child)
+    const other = document.createElement("span")
+    document.body.append(element, other)
+    const { scheduler, batch } = createScheduler()
+    const callback = jest.fn()
+    const observer = observeContent(element, scheduler, callback)
+
+    batch(true, [other])
+    child.textContent = "\\(y\\)"
+    await observed()
+    expect(callback).toHaveBeenCalledWith([child])
+    batch(false, [other])
+
+    callback.mockClear()
+    batch(true, [element])
+    child.textContent = ""
+    child.appendChild(document.createElement("mjx-container"))
+    batch(false, [element])
+    await observed()
+    expect(callback).not.toHaveBeenCalled()
+
+    // all elements are typeset with equation numbering
+    batch(true, null)
+    child.textContent = "\\(z\\)"
+    batch(false, null)
+    await observed()
+    expect(callback).not.toHaveBeenCalled()
+    observer.disconnect()
+})
@@ -0,0 +1,73 @@
+import type { TypesettingScheduler } from "../MathJaxContext/TypesettingScheduler"
+
+type ContentCallback = (changed: HTMLElement[]) => void
+
+export interface ContentObserver {
+    // discards the changes which have not been reported yet, e.g. because all content is about to be typeset anyway
+    discard: () => void
+    disconnect: () => void
+}
+
+// the closest element of the node, which is the node itself for elements
+const elementOf = (node: Node) => node.nodeType === Node.ELEMENT_NODE ? node as HTMLElement : node.parentElement
+
+// changes made within the output of MathJax, such as the assistive MathML added for accessibility, are never React's
+const withinOutput = (node: Node) => (elementOf(node)?.closest("mjx-container") ?? null) !== null
+
+// the elements containing the changes in the content of the root, without elements within other changed elements
+const changedElements = (root: HTMLElement, records: MutationRecord[]) => {
+    const changed: HTMLElement[] = []
+    records
+        .filter((record) => !withinOutput(record.target))
+        .map((record) => elementOf(record.target))
+        .forEach((element) => {
+            if(element === null || !root.contains(element) || changed.some((other) => other.contains(element))) return
+            changed.splice(0, changed.length, ...changed.filter((other) => !element.contains(other)))
+            changed.push(element)
+        })
+    return changed
+}
+
+// whether MathJax changes the element when it typesets the elements of a batch
+const typesetIn = (element: HTMLElement, elements: HTMLElement[] | null) => elements === null ||
+    elements.some((other) => other === element || other.contains(element) || element.contains(other))
+
+/**
+ * Reports when the content of the element is changed by others than MathJax, which is the case when children of a
+ * MathJax component render again on their own. Changes made while MathJax typesets a batch with the element are made
+ * by MathJax and are not reported, whereas changes made while other elements are typeset are. The callback is called
+ * with the elements containing the changes.
+ */
+export const observeContent = (
+    element: HTMLElement,
+    scheduler: TypesettingScheduler,
+    callback: ContentCallback
+): ContentObserver => {
+    // set while MathJax typesets a batch with the element, during which all changes are made by MathJax
+    let typesetting = false
+    const report = (records: MutationRecord[]) => {
+        const changed = changedElements(element, records)
+        if(changed.length > 0) callback(changed)
+    }
+    const observer = new MutationObserver((records) => {
+        if(!typesetting) report(records)
+    })
+    observer.observe(element, { childList: true, characterData: true, subtree: true })
+    /* changes made before a batch with the element are reported before MathJax makes its own changes, which are then
+    discarded, while changes made during batches with other elements are reported as they are made */
+    const removeListener = scheduler.onBatch((started, elements) => {
+        if(!typesetIn(element, elements)) return
+        const records = observer.takeRecords()
+        if(started) report(records)
+        typesetting = started
+    })
+    return {
+        discard: () => {
+            observer.takeRecords()
+        },
+        disconnect: () => {
+            removeListener()
+            observer.disconnect()
+        }
+    }
+}
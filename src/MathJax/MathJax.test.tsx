@@ -1,8 +1,12 @@
 // @ts-ignore
-import React, { ReactElement } from "react"
-import { render } from "@testing-library/react"
-import { MathJaxBaseContext } from "../MathJaxContext"
-import MathJax from "./MathJax"
+import React, { createRef, ReactElement, Suspense, useState } from "react"
+import { act, render, waitFor } from "@testing-library/react"
+import { MathJaxBaseContext, MathJaxContext } from "../MathJaxContext"
+import { createLocalLoader } from "../MathJaxLocal"
+import { useMathJaxStats } from "../useMathJaxStats"
+import MathJax, { MathJaxHandle } from "./MathJax"
+import { createMathJaxMetrics } from "../MathJaxContext/MathJaxMetrics"
+import { createTypesettingScheduler } from "../MathJaxContext/TypesettingScheduler"
 import { OptionList } from "mathjax-full/js/util/Options"
 
 let originalConsoleError: (data: any[]) => void
@@ -51,3 +55,563 @@ it("throws when renderMode = pre set with no typesettingOptions prop", async ()
     const componentGetter = () => render(getComponent(3, "pre", math))
     expect(componentGetter).toThrow("typesettingOptions")
 }, 15000)
+
+it("keeps markup typeset on the server when hydrating without typesetting again", async () => {
+    const typesetPromise = jest.fn(() => Promise.resolve())
+    const onInitTypeset = jest.fn()
+    const serverMarkup = "<mjx-container>typeset</mjx-container>"
+    const container = document.createElement("div")
+    container.innerHTML = `<span data-mathjax-ssr="" style="display:block">${serverMarkup}</span>`
+    document.body.appendChild(container)
+    render(
+        <MathJaxBaseContext.Provider
+            value={{
+                version: 3,
+                promise: Promise.resolve({ startup: { promise: Promise.resolve() }, typesetPromise } as any),
+                ssr: { hydrating: true }
+            }}
+        >
+            <MathJax hideUntilTypeset="first" onInitTypeset={onInitTypeset}>{`\\(${math}\\)`}</MathJax>
+        </MathJaxBaseContext.Provider>,
+        { container, hydrate: true }
+    )
+    await Promise.resolve()
+    expect(container.firstElementChild!.innerHTML).toBe(serverMarkup)
+    expect((container.firstElementChild as HTMLElement).style.visibility).toBe("visible")
+    expect(onInitTypeset).toHaveBeenCalledTimes(1)
+    expect(typesetPromise).not.toHaveBeenCalled()
+}, 15000)
+
+it("typesets MathJax components rendered at the same time in one batch", async () => {
+    const typesetClear = jest.fn()
+    const typesetPromise = jest.fn(() => Promise.resolve())
+    const onTypeset = jest.fn()
+    const mjPromise = {
+        version: 3 as const,
+        promise: Promise.resolve({
+            startup: { promise: Promise.resolve(), document: { getMathItemsWithin: () => [] } },
+            typesetClear,
+            typesetPromise
+        } as any)
+    }
+    render(
+        <MathJaxBaseContext.Provider value={{ ...mjPromise, scheduler: createTypesettingScheduler(mjPromise) }}>
+            <MathJax onTypeset={onTypeset}>{`\\(${math}\\)`}</MathJax>
+            <MathJax onTypeset={onTypeset}>{`\\(${math}\\)`}</MathJax>
+        </MathJaxBaseContext.Provider>
+    )
+    await new Promise((res) => setTimeout(res, 0))
+    expect(typesetClear).toHaveBeenCalledTimes(1)
+    expect(typesetPromise).toHaveBeenCalledTimes(1)
+    expect((typesetPromise.mock.calls[0] as any[])[0]).toHaveLength(2)
+    expect(onTypeset).toHaveBeenCalledTimes(2)
+}, 15000)
+
+it("attributes a failure in a batch only to the component whose content failed to be typeset", async () => {
+    const typesetPromise = jest.fn((elements: HTMLElement[]) =>
+        elements.some((element) => element.textContent === "bad")
+            ? Promise.reject(Error("Typesetting failed"))
+            : Promise.resolve()
+    )
+    const onGoodError = jest.fn()
+    const onBadError = jest.fn()
+    const onTypeset = jest.fn()
+    const mjPromise = {
+        version: 3 as const,
+        promise: Promise.resolve({
+            startup: { promise: Promise.resolve(), document: { getMathItemsWithin: () => [] } },
+            typesetClear: jest.fn(),
+            typesetPromise
+        } as any)
+    }
+    render(
+        <MathJaxBaseContext.Provider value={{ ...mjPromise, scheduler: createTypesettingScheduler(mjPromise) }}>
+            <MathJax onTypeset={onTypeset} onError={onGoodError}>{`\\(${math}\\)`}</MathJax>
+            <MathJax onError={onBadError}>bad</MathJax>
+        </MathJaxBaseContext.Provider>
+    )
+    await waitFor(() => expect(onBadError).toHaveBeenCalledWith(expect.objectContaining({ phase: "typeset" })))
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(1))
+    expect(onGoodError).not.toHaveBeenCalled()
+    // the batch and then each element on its own
+    expect(typesetPromise).toHaveBeenCalledTimes(3)
+}, 15000)
+
+it("typesets only the latest text when it changes during typesetting and discards superseded output", async () => {
+    const resolvers: Array<(output: HTMLElement) => void> = []
+    const tex2chtmlPromise = jest.fn(() => new Promise<HTMLElement>((res) => resolvers.push(res)))
+    const output = (content: string) => {
+        const element = document.createElement("span")
+        element.textContent = content
+        return element
+    }
+    const onTypeset = jest.fn()
+    const mathJax = {
+        startup: { promise: Promise.resolve(), document: { clear: jest.fn(), updateDocument: jest.fn() } },
+        tex2chtmlPromise
+    }
+    const getPreComponent = (text: string) => (
+        <MathJaxBaseContext.Provider value={{ version: 3, promise: Promise.resolve(mathJax as any) }}>
+            <MathJax
+                renderMode="pre"
+                text={text}
+                typesettingOptions={{ fn: "tex2chtmlPromise" }}
+                dynamic
+                onTypeset={onTypeset}
+            />
+        </MathJaxBaseContext.Provider>
+    )
+    const flush = () => new Promise((res) => setTimeout(res, 0))
+    const { container, rerender } = render(getPreComponent("a"))
+    await flush()
+    rerender(getPreComponent("b"))
+    rerender(getPreComponent("c"))
+    resolvers[0](output("a"))
+    await flush()
+    expect(container.textContent).toBe("")
+    expect(tex2chtmlPromise.mock.calls.map((call: any[]) => call[0])).toEqual(["a", "c"])
+    resolvers[1](output("c"))
+    await flush()
+    expect(container.textContent).toBe("c")
+    expect(onTypeset).toHaveBeenCalledTimes(1)
+}, 15000)
+
+it("reports failed conversion to onError and shows the error fallback until the text changes", async () => {
+    const onError = jest.fn()
+    const mathJax = {
+        startup: { promise: Promise.resolve(), document: { clear: jest.fn(), updateDocument: jest.fn() } },
+        tex2chtml: jest.fn((text: string) => {
+            if(text === "bad") throw Error("Conversion failed")
+            const output = document.createElement("span")
+            output.textContent = text
+            return output
+        })
+    }
+    const getPreComponent = (text: string) => (
+        <MathJaxBaseContext.Provider value={{ version: 3, promise: Promise.resolve(mathJax as any), onError }}>
+            <MathJax
+                renderMode="pre"
+                text={text}
+                typesettingOptions={{ fn: "tex2chtml" }}
+                dynamic
+                errorFallback={(error) => <span className="fallback">{error.message}</span>}
+            />
+        </MathJaxBaseContext.Provider>
+    )
+    const { container, rerender } = render(getPreComponent("bad"))
+    await new Promise((res) => setTimeout(res, 0))
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+        phase: "conversion",
+        message: "Conversion failed",
+        text: "bad"
+    }))
+    await waitFor(() => expect(container.querySelector(".fallback")?.textContent).toBe("Conversion failed"))
+    rerender(getPreComponent("good"))
+    await waitFor(() => expect(container.textContent).toBe("good"))
+    expect(container.querySelector(".fallback")).toBeNull()
+}, 15000)
+
+it("suspends until MathJax has loaded and the text has been converted with suspense", async () => {
+    const onTypeset = jest.fn()
+    const onError = jest.fn()
+    let loaded: (mathJax: any) => void = () => undefined
+    const mathJax = {
+        startup: { promise: Promise.resolve(), document: { clear: jest.fn(), updateDocument: jest.fn() } },
+        tex2chtml: jest.fn((text: string) => {
+            if(text === "bad") throw Error("Conversion failed")
+            const output = document.createElement("mjx-container")
+            output.textContent = text
+            return output
+        })
+    }
+    const context = { version: 3 as const, promise: new Promise<any>((res) => loaded = res), suspense: true }
+    const getSuspenseComponent = (text: string) => (
+        <MathJaxBaseContext.Provider value={context}>
+            <Suspense fallback={<span className="fallback">Loading</span>}>
+                <MathJax
+                    id="math"
+                    renderMode="pre"
+                    text={text}
+                    typesettingOptions={{ fn: "tex2chtml" }}
+                    dynamic
+                    onTypeset={onTypeset}
+                    onError={onError}
+                />
+            </Suspense>
+        </MathJaxBaseContext.Provider>
+    )
+    const { container, rerender } = render(getSuspenseComponent("x"))
+    expect(container.querySelector(".fallback")).not.toBeNull()
+    expect(container.querySelector("#math")).toBeNull()
+    await act(async () => loaded(mathJax))
+    await waitFor(() => expect(container.querySelector("#math mjx-container")?.textContent).toBe("x"))
+    expect(container.querySelector(".fallback")).toBeNull()
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(1))
+    rerender(getSuspenseComponent("bad"))
+    await waitFor(() => expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+        phase: "conversion",
+        message: "Conversion failed",
+        text: "bad"
+    })))
+    rerender(getSuspenseComponent("x"))
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(3))
+    // the conversion is only done once for the same text
+    expect(mathJax.tex2chtml).toHaveBeenCalledTimes(2)
+}, 15000)
+
+it("does not update components using the metrics of the context while rendering with suspense", async () => {
+    const Stats = () => {
+        const { cacheMisses } = useMathJaxStats()
+        return <span id="misses">{cacheMisses}</span>
+    }
+    const { container } = render(
+        <MathJaxContext loader={createLocalLoader()} config={{ startup: { typeset: false } }} suspense>
+            <Stats />
+            <Suspense fallback={null}>
+                <MathJax id="math" renderMode="pre" text="x" typesettingOptions={{ fn: "tex2svg" }} />
+            </Suspense>
+        </MathJaxContext>
+    )
+    await waitFor(() => expect(container.querySelector("#math svg")).not.toBeNull(), { timeout: 10000 })
+    expect(container.querySelector("#misses")!.textContent).toBe("1")
+    expect(console.error).not.toHaveBeenCalled()
+}, 15000)
+
+it("numbers components for the metrics of the context once they are typeset rather than every time they render", async () => {
+    const metrics = createMathJaxMetrics()
+    const ids: number[] = []
+    metrics.subscribe((event) => {
+        if(event.type === "typesetStart") ids.push(event.id)
+    })
+    const mathJax = {
+        startup: { promise: Promise.resolve(), document: { clear: jest.fn(), updateDocument: jest.fn() } },
+        tex2chtml: jest.fn(() => document.createElement("mjx-container"))
+    }
+    const onTypeset = jest.fn()
+    // the suspending component is rendered again from scratch when its conversion is done
+    render(
+        <MathJaxBaseContext.Provider value={{ version: 3, promise: Promise.resolve(mathJax as any), metrics }}>
+            <MathJax renderMode="pre" text="x" typesettingOptions={{ fn: "tex2chtml" }} onTypeset={onTypeset} />
+            <Suspense fallback={null}>
+                <MathJax
+                    renderMode="pre"
+                    text="y"
+                    typesettingOptions={{ fn: "tex2chtml" }}
+                    suspense
+                    onTypeset={onTypeset}
+                />
+            </Suspense>
+        </MathJaxBaseContext.Provider>
+    )
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(2))
+    expect(ids).toHaveLength(2)
+    expect(ids[1]).toBe(ids[0] + 1)
+}, 15000)
+
+it("reports TeX errors in typeset output to onError", async () => {
+    const onError = jest.fn()
+    const mathJax = {
+        startup: { promise: Promise.resolve(), document: { clear: jest.fn(), updateDocument: jest.fn() } },
+        tex2chtml: jest.fn(() => {
+            const output = document.createElement("mjx-container")
+            output.innerHTML = `<mjx-merror data-mjx-error="Undefined control sequence \\foo"></mjx-merror>`
+            return output
+        })
+    }
+    render(
+        <MathJaxBaseContext.Provider value={{ version: 3, promise: Promise.resolve(mathJax as any) }}>
+            <MathJax renderMode="pre" text={"\\foo"} typesettingOptions={{ fn: "tex2chtml" }} onError={onError} />
+        </MathJaxBaseContext.Provider>
+    )
+    await new Promise((res) => setTimeout(res, 0))
+    expect(onError).toHaveBeenCalledWith({
+        phase: "conversion",
+        message: "Undefined control sequence \\foo",
+        text: "\\foo"
+    })
+}, 15000)
+
+it("typesets lazy content only when it comes near the viewport and reserves space for it until then", async () => {
+    const observed: Element[] = []
+    let intersect: (entries: Partial<IntersectionObserverEntry>[]) => void = () => undefined
+    let rootMargin: string | undefined
+    const globals = window as any
+    const originalIntersectionObserver = globals.IntersectionObserver
+    globals.IntersectionObserver = jest.fn((callback, options) => {
+        intersect = callback
+        rootMargin = options.rootMargin
+        return { observe: (element: Element) => observed.push(element), unobserve: jest.fn(), disconnect: jest.fn() }
+    })
+    try {
+        const tex2chtml = jest.fn((text: string) => {
+            const output = document.createElement("mjx-container")
+            output.textContent = text
+            return output
+        })
+        const mathJax = {
+            startup: { promise: Promise.resolve(), document: { clear: jest.fn(), updateDocument: jest.fn() } },
+            tex2chtml
+        }
+        const { container } = render(
+            <MathJaxBaseContext.Provider value={{ version: 3, promise: Promise.resolve(mathJax as any) }}>
+                <MathJax
+                    renderMode="pre"
+                    text={math}
+                    typesettingOptions={{ fn: "tex2chtml" }}
+                    hideUntilTypeset="first"
+                    lazy={{ rootMargin: "100px", placeholder: { height: 40 } }}
+                />
+            </MathJaxBaseContext.Provider>
+        )
+        const element = container.firstElementChild as HTMLElement
+        await new Promise((res) => setTimeout(res, 0))
+        expect(tex2chtml).not.toHaveBeenCalled()
+        expect(observed).toEqual([element])
+        expect(rootMargin).toBe("100px")
+        expect(element.style.minHeight).toBe("40px")
+        expect(element.style.visibility).toBe("hidden")
+        act(() => intersect([{ target: element, isIntersecting: true }]))
+        await waitFor(() => expect(element.textContent).toBe(math))
+        expect(element.style.visibility).toBe("visible")
+        await waitFor(() => expect(element.style.minHeight).toBe(""))
+    } finally {
+        globals.IntersectionObserver = originalIntersectionObserver
+    }
+}, 15000)
+
+it("renders the output of MathJax as React elements which React updates when the text changes", async () => {
+    const loader = createLocalLoader()
+    const getOutputComponent = (text: string) => (
+        <MathJaxContext loader={loader} config={{ startup: { typeset: false } }} reactOutput>
+            <MathJax id="math" renderMode="pre" text={text} typesettingOptions={{ fn: "tex2svg" }} dynamic />
+        </MathJaxContext>
+    )
+    const { container, rerender } = render(getOutputComponent("x"))
+    await waitFor(() => expect(container.querySelector("#math [data-c='1D465']")).not.toBeNull(), { timeout: 10000 })
+    const svg = container.querySelector("#math svg")!
+    expect(svg.getAttribute("viewBox")).not.toBeNull()
+    rerender(getOutputComponent("y"))
+    await waitFor(() => expect(container.querySelector("#math [data-c='1D466']")).not.toBeNull())
+    // the elements are reconciled rather than replaced
+    expect(container.querySelector("#math svg")).toBe(svg)
+    expect(console.error).not.toHaveBeenCalled()
+}, 15000)
+
+it("exports the source, MathML and SVG of typeset math and typesets it again via the ref", async () => {
+    const handle = createRef<MathJaxHandle>()
+    const onTypeset = jest.fn()
+    const { container } = render(
+        <MathJaxContext loader={createLocalLoader()} config={{ startup: { typeset: false } }}>
+            <MathJax ref={handle} onTypeset={onTypeset} dynamic={false}>{"\\(x^2\\)"}</MathJax>
+        </MathJaxContext>
+    )
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(1), { timeout: 10000 })
+    await expect(handle.current!.getSource()).resolves.toBe("x^2")
+    await expect(handle.current!.toMathML()).resolves.toContain("<msup>")
+    await expect(handle.current!.toSVGString()).resolves.toMatch(/^<svg/)
+    const retypeset = handle.current!.retypeset()
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(2))
+    await retypeset
+    expect(container.querySelectorAll("mjx-container")).toHaveLength(1)
+}, 15000)
+
+it("reprocesses responsive math with version 2 when its container is resized so that lines are broken anew", async () => {
+    let resize: () => void = () => undefined
+    const globals = window as any
+    const originalResizeObserver = globals.ResizeObserver
+    globals.ResizeObserver = jest.fn((callback) => {
+        resize = () => callback(observed.map((target) => ({ target })))
+        return { observe: (element: Element) => observed.push(element), unobserve: jest.fn(), disconnect: jest.fn() }
+    })
+    const observed: Element[] = []
+    let width = 300
+    const clientWidth = jest.spyOn(HTMLElement.prototype, "clientWidth", "get").mockImplementation(() => width)
+    try {
+        const queue = jest.fn((...items: any[]) => items.forEach((item) => {
+            if(typeof item === "function") item()
+        }))
+        const onTypeset = jest.fn()
+        const { container } = render(
+            <MathJaxBaseContext.Provider value={{ version: 2, promise: Promise.resolve({ Hub: { Queue: queue } } as any) }}>
+                <MathJax id="linebreak" responsive={{ overflow: "linebreak", debounce: 0 }} onTypeset={onTypeset}>
+                    {math}
+                </MathJax>
+            </MathJaxBaseContext.Provider>
+        )
+        const linebreak = container.querySelector("#linebreak")
+        await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(1))
+        expect(queue).toHaveBeenCalledWith(["Typeset", expect.anything(), [linebreak]])
+        width = 200
+        act(() => resize())
+        await waitFor(() => expect(queue).toHaveBeenCalledWith(["Reprocess", expect.anything(), linebreak]))
+        // the math is not reprocessed again unless the width of its container changes
+        act(() => resize())
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        expect(queue.mock.calls.filter(([item]) => Array.isArray(item) && item[0] === "Reprocess")).toHaveLength(1)
+    } finally {
+        clientWidth.mockRestore()
+        globals.ResizeObserver = originalResizeObserver
+    }
+})
+
+it("rejects exporting MathML and SVG via the ref with version 2", async () => {
+    const handle = createRef<MathJaxHandle>()
+    render(
+        <MathJaxBaseContext.Provider value={{ version: 2, promise: Promise.resolve({ Hub: { Queue: jest.fn() } } as any) }}>
+            <MathJax ref={handle}>{math}</MathJax>
+        </MathJaxBaseContext.Provider>
+    )
+    await expect(handle.current!.toMathML()).rejects.toMatchObject({ message: expect.stringContaining("version 2") })
+    await expect(handle.current!.toSVGString()).rejects.toMatchObject({ message: expect.stringContaining("version 2") })
+})
+
+it("attaches assistive MathML to typeset math and labels it with its speech or the label", async () => {
+    const onSpeechText = jest.fn()
+    const onTypeset = jest.fn()
+    const { container } = render(
+        <MathJaxContext loader={createLocalLoader()} config={{ startup: { typeset: false } }} accessibility>
+            <MathJax
+                id="speech"
+                renderMode="pre"
+                text="x^2"
+                typesettingOptions={{ fn: "tex2svg" }}
+                onSpeechText={onSpeechText}
+                onTypeset={onTypeset}
+            />
+            <MathJax id="label" label="area of the square">{"\\(a^2\\)"}</MathJax>
+        </MathJaxContext>
+    )
+    await waitFor(() => expect(onTypeset).toHaveBeenCalled(), { timeout: 10000 })
+    // without semantic enrichment, there is no speech and the assistive MathML is read instead of a label
+    expect(onSpeechText).not.toHaveBeenCalled()
+    const output = container.querySelector("#speech mjx-container")!
+    expect(output.hasAttribute("role")).toBe(false)
+    expect(output.hasAttribute("aria-label")).toBe(false)
+    expect(output.querySelector("svg")!.getAttribute("aria-hidden")).toBe("true")
+    expect(output.querySelector("mjx-assistive-mml msup")).not.toBeNull()
+    await waitFor(() => expect(container.querySelector("#label mjx-assistive-mml msup")).not.toBeNull())
+    const labelled = container.querySelector("#label")!
+    expect(labelled.getAttribute("role")).toBe("math")
+    expect(labelled.getAttribute("aria-label")).toBe("area of the square")
+    expect(labelled.querySelector("mjx-container")!.getAttribute("aria-hidden")).toBe("true")
+}, 15000)
+
+it("copies the styles of MathJax to the shadow root or iframe document the math is typeset in", async () => {
+    const host = document.body.appendChild(document.createElement("div"))
+    const shadowRoot = host.attachShadow({ mode: "open" })
+    const iframe = document.body.appendChild(document.createElement("iframe"))
+    const frameDocument = iframe.contentDocument!
+    const getMath = () => (
+        <MathJaxContext loader={createLocalLoader()} config={{ startup: { typeset: false } }}>
+            <MathJax renderMode="pre" text="x^2" typesettingOptions={{ fn: "tex2svg" }} />
+            <MathJax>{"\\(y\\)"}</MathJax>
+        </MathJaxContext>
+    )
+    render(getMath(), { container: shadowRoot.appendChild(document.createElement("div")) })
+    render(getMath(), { container: frameDocument.body.appendChild(frameDocument.createElement("div")) })
+    await waitFor(() => {
+        expect(shadowRoot.querySelectorAll("mjx-container svg")).toHaveLength(2)
+        expect(frameDocument.querySelectorAll("mjx-container svg")).toHaveLength(2)
+    }, { timeout: 10000 })
+    const shadowStyles = shadowRoot.querySelector("style[data-mathjax-styles='MJX-SVG-styles']")!
+    const frameStyles = frameDocument.head.querySelector("style[data-mathjax-styles='MJX-SVG-styles']")!
+    expect(shadowStyles.textContent).toContain("mjx-container[jax=\"SVG\"]")
+    expect(frameStyles.textContent).toBe(shadowStyles.textContent)
+    host.remove()
+    iframe.remove()
+}, 15000)
+
+it("typesets responsive math again when its container is resized and fits math which is too wide", async () => {
+    let resize: () => void = () => undefined
+    const globals = window as any
+    const originalResizeObserver = globals.ResizeObserver
+    globals.ResizeObserver = jest.fn((callback) => {
+        resize = () => callback(observed.map((target) => ({ target })))
+        return { observe: (element: Element) => observed.push(element), unobserve: jest.fn(), disconnect: jest.fn() }
+    })
+    const observed: Element[] = []
+    let width = 300
+    const clientWidth = jest.spyOn(HTMLElement.prototype, "clientWidth", "get").mockImplementation(() => width)
+    // the math is 400 pixels wide unless scaled down
+    const scrollWidth = jest.spyOn(HTMLElement.prototype, "scrollWidth", "get")
+        .mockImplementation(function(this: HTMLElement) {
+            return 4 * (parseFloat(this.style.fontSize) || 100)
+        })
+    try {
+        const tex2chtml = jest.fn((text: string) => {
+            const output = document.createElement("mjx-container")
+            output.textContent = text
+            return output
+        })
+        const mathJax = {
+            startup: { promise: Promise.resolve(), document: { clear: jest.fn(), updateDocument: jest.fn() } },
+            tex2chtml
+        }
+        const onTypeset = jest.fn()
+        const { container } = render(
+            <MathJaxBaseContext.Provider value={{ version: 3, promise: Promise.resolve(mathJax as any) }}>
+                <MathJax
+                    id="linebreak"
+                    renderMode="pre"
+                    text={math}
+                    typesettingOptions={{ fn: "tex2chtml" }}
+                    responsive={{ overflow: "linebreak", debounce: 0 }}
+                    onTypeset={onTypeset}
+                />
+                <MathJax
+                    id="scale"
+                    renderMode="pre"
+                    text={math}
+                    typesettingOptions={{ fn: "tex2chtml" }}
+                    responsive={{ overflow: "scale", debounce: 0 }}
+                />
+            </MathJaxBaseContext.Provider>
+        )
+        const linebreak = container.querySelector<HTMLElement>("#linebreak")!
+        const scale = container.querySelector<HTMLElement>("#scale")!
+        await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(1))
+        expect(linebreak.style.overflowX).toBe("auto")
+        await waitFor(() => expect(scale.style.fontSize).toBe("75%"))
+        width = 200
+        act(() => resize())
+        await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(2))
+        expect(tex2chtml).toHaveBeenLastCalledWith(math, { display: true, containerWidth: 200 })
+        await waitFor(() => expect(scale.style.fontSize).toBe("50%"))
+    } finally {
+        clientWidth.mockRestore()
+        scrollWidth.mockRestore()
+        globals.ResizeObserver = originalResizeObserver
+    }
+}, 15000)
+
+it("typesets only the content which children change when they render again on their own with observe", async () => {
+    let setExponent: (exponent: number) => void = () => undefined
+    const Power = () => {
+        const [exponent, setState] = useState(1)
+        setExponent = setState
+        return <span id="power">{`\\(x^{${exponent}}\\)`}</span>
+    }
+    const onTypeset = jest.fn()
+    const { container } = render(
+        <MathJaxContext loader={createLocalLoader()} config={{ startup: { typeset: false } }}>
+            <MathJax observe onTypeset={onTypeset}>
+                <Power />
+                <span id="static">{"\\(y\\)"}</span>
+            </MathJax>
+        </MathJaxContext>
+    )
+    await waitFor(() => expect(onTypeset).toHaveBeenCalled(), { timeout: 10000 })
+    expect(container.querySelectorAll("mjx-container")).toHaveLength(2)
+    const staticOutput = container.querySelector("#static mjx-container")
+    const typesetCount = onTypeset.mock.calls.length
+    act(() => setExponent(2))
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(typesetCount + 1))
+    expect(container.querySelector("#power")!.textContent).not.toContain("\\(")
+    expect(container.querySelector("#static mjx-container")).toBe(staticOutput)
+    const mathJax = (window as any).MathJax
+    expect(mathJax.startup.document.getMathItemsWithin([container]).map((item: any) => item.math).sort())
+        .toEqual(["x^{2}", "y"])
+    // MathJax changing the content when it typesets does not lead to typesetting again
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(onTypeset).toHaveBeenCalledTimes(typesetCount + 1)
+}, 15000)
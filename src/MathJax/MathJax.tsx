@@ -1,5 +1,37 @@
-import React, { ComponentPropsWithoutRef, FC, useContext, useEffect, useLayoutEffect, useRef } from "react"
+import React, {
+    ComponentPropsWithoutRef,
+    forwardRef,
+    ReactNode,
+    useContext,
+    useEffect,
+    useImperativeHandle,
+    useLayoutEffect,
+    useRef,
+    useState
+} from "react"
+import type { MathJax3Object } from "../MathJax3"
 import { MathJaxBaseContext, MathJaxOverrideableProps } from "../MathJaxContext"
+import type { MathJaxMetrics } from "../MathJaxContext/MathJaxMetrics"
+import { createMathJaxError, MathJaxError, MathJaxErrorPhase } from "../MathJaxContext/MathJaxError"
+import { convertMathToMarkup, convertMathToTree, MathJaxOutputNode } from "../MathJaxContext/MathJaxConversion"
+import { onReconfigured } from "../MathJaxContext/MathJaxReconfiguration"
+import { ContentObserver, observeContent } from "./ContentObserver"
+import { makeAccessible } from "./MathJaxAccessibility"
+import { ExportedMath, toMathML, toSVGString, typesetMathIn } from "./MathJaxExport"
+import { copyStyles, styleRootOf } from "./MathJaxStyles"
+import { fitOverflow, MathJaxOverflow, NO_OVERFLOW, overflowStyle } from "./OverflowFit"
+import { useTypesettingScheduler } from "../MathJaxContext/TypesettingScheduler"
+import { toReactNode } from "./OutputElements"
+import { observeResize } from "./SizeObserver"
+import { forgetSuspension, suspendOn, SuspensionResult } from "./MathJaxSuspense"
+import { observeVisibility } from "./ViewportObserver"
+
+export interface MathJaxResponsiveOptions {
+    // how display math which is wider than its container is handled
+    overflow?: MathJaxOverflow
+    // milliseconds to wait after the container has stopped resizing before the math is laid out again
+    debounce?: number
+}
 
 export interface MathJaxProps extends MathJaxOverrideableProps {
     inline?: boolean
@@ -7,23 +39,87 @@ export interface MathJaxProps extends MathJaxOverrideableProps {
     onTypeset?: () => void
     text?: string
     dynamic?: boolean
+    // typesets the parts of the content which change when children render again on their own (render mode "post")
+    observe?: boolean
+    errorFallback?: (error: MathJaxError) => ReactNode
+    // accessible name of the component, which replaces the speech of the math
+    label?: string
+    // called with the speech of the math every time it has been typeset with accessibility and semantic enrichment
+    onSpeechText?: (text: string) => void
+    // lays out display math again when the width of its container changes and fits math which is too wide
+    responsive?: boolean | MathJaxResponsiveOptions
+}
+
+/**
+ * Functions of a MathJax component available via its ref. With several pieces of math in the component, the results
+ * for every piece are separated by line breaks. All functions reject with a MathJaxError if they fail.
+ */
+export interface MathJaxHandle {
+    // the math of the component, which is the text in render mode "pre" and the math found in the content otherwise
+    getSource: () => Promise<string>
+    toMathML: () => Promise<string>
+    toSVGString: () => Promise<string>
+    // typesets the content again, resolves when it has been typeset
+    retypeset: () => Promise<void>
+}
+
+interface RequestedRetypeset {
+    // the latest typesetting run when the retypesetting was requested
+    after: number
+    resolve: () => void
+    reject: (error: MathJaxError) => void
 }
 
 const typesettingFailed = (err: any) =>
     `Typesetting failed: ${typeof err.message !== "undefined" ? err.message : err.toString()}`
 
-const MathJax: FC<MathJaxProps & ComponentPropsWithoutRef<"span">> = ({
+// marks the wrapper of content which was typeset on the server so that it is not typeset again on the client
+const SSR_ATTRIBUTE = "data-mathjax-ssr"
+
+// MathJax adds this attribute, with the error message, to the output of math with TeX errors
+const PARSE_ERROR_ATTRIBUTE = "data-mjx-error"
+
+// lazy content is typeset when it comes within this distance of the viewport unless another root margin is given
+const DEFAULT_ROOT_MARGIN = "200px"
+
+// responsive math is laid out again when its container has not been resized for this many milliseconds
+const DEFAULT_RESIZE_DEBOUNCE = 100
+
+// number of MathJax components typeset so far, which identifies the components in the metrics of the context
+let typesetComponents = 0
+
+// validator for text input with renderMode = "pre"
+const validText = (inputText?: string) => typeof inputText === "string" && inputText.length > 0
+
+const escapeHtml = (content: string) => content.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+
+const notAvailable = (capability: string) => Promise.reject<never>({
+    phase: "conversion",
+    message: `${capability} is only available with MathJax 3, and version 2 is currently in use`
+})
+
+const MathJax = forwardRef<MathJaxHandle, MathJaxProps & ComponentPropsWithoutRef<"span">>(({
     inline = false,
     hideUntilTypeset,
     onInitTypeset,
     onTypeset,
     text,
     dynamic,
+    observe,
     typesettingOptions,
     renderMode,
+    onError,
+    errorFallback,
+    lazy,
+    reactOutput,
+    accessibility,
+    label,
+    onSpeechText,
+    responsive,
+    suspense,
     children,
     ...rest
-}) => {
+}, handle) => {
     // in render mode "pre", this keeps track of the last value on text to determine when we need to run typesetting
     const lastChildren = useRef<string>("")
 
@@ -33,41 +129,438 @@ const MathJax: FC<MathJaxProps & ComponentPropsWithoutRef<"span">> = ({
 
     const mjPromise = useContext(MathJaxBaseContext)
 
+    /* identifies the component in the metrics of the context, allocated when it is first typeset rather than while it
+    renders since React may render it several times, or discard its renders, before it mounts */
+    const componentId = useRef(0)
+
     // allow context values to steer this component for some props if they are undefined
     const usedHideUntilTypeset = hideUntilTypeset ?? mjPromise?.hideUntilTypeset
     const usedRenderMode = renderMode ?? mjPromise?.renderMode
     const usedConversionOptions = typesettingOptions ?? mjPromise?.typesettingOptions
+    const usedLazy = lazy ?? mjPromise?.lazy
+    const lazyOptions = usedLazy ? (usedLazy === true ? {} : usedLazy) : null
     const usedDynamic = dynamic === false ? false : (dynamic || process.env.NODE_ENV !== "production")
+    // in render mode "pre", the output of MathJax can be rendered by React instead of being added as raw html
+    const usedReactOutput = usedRenderMode === "pre" && !!(reactOutput ?? mjPromise?.reactOutput)
+    const usedAccessibility = !!(accessibility ?? mjPromise?.accessibility)
+    // only display math is responsive
+    const responsiveOptions = responsive && !inline ? (responsive === true ? {} : responsive) : null
+    const overflow = responsiveOptions?.overflow ?? "scroll"
+    const resizeDebounce = responsiveOptions?.debounce ?? DEFAULT_RESIZE_DEBOUNCE
+
+    // the width of the container responsive math was last typeset for, which conversions are done with
+    const containerWidth = useRef<number | null>(null)
+    // how responsive math which is wider than its container is fitted into it
+    const [overflowFit, setOverflowFit] = useState(NO_OVERFLOW)
+
+    // options for conversions in render mode "pre"
+    const conversionOptions = () => ({
+        ...(usedConversionOptions?.options || {}),
+        display: !inline,
+        ...(responsiveOptions !== null && containerWidth.current !== null ? { containerWidth: containerWidth.current } : {})
+    })
+
+    // the output rendered by React, null until the first conversion is done
+    const [outputTree, setOutputTree] = useState<MathJaxOutputNode | null>(null)
 
     // whether initial typesetting of this element has been done or not
     const initLoad = useRef(false)
 
-    // mutex to signal when typesetting is ongoing (without it we may have race conditions)
+    /* the latest error along with the content it occurred for (text in render mode "pre" and children in render mode
+    "post"), the error fallback is shown instead of the content until the content changes */
+    const [failure, setFailure] = useState<{ source: unknown; error: MathJaxError } | null>(null)
+    const source = usedRenderMode === "pre" ? text : children
+    const shownError = errorFallback && failure !== null && failure.source === source ? failure.error : null
+
+    // errors which are not handled otherwise are thrown during rendering so that error boundaries can catch them
+    const [, setUnhandledError] = useState<null>(null)
+
+    /* with server side rendering, only math given as a string can be typeset on the server, which is the text prop in
+    render mode "pre" and string children in render mode "post" */
+    const ssrSource = usedRenderMode === "pre"
+        ? text
+        : typeof children === "string" || typeof children === "number" ? `${children}` : undefined
+
+    // markup (or output for React) typeset on the server, only computed when rendering on the server
+    let serverMarkup: string | undefined
+    let serverTree: MathJaxOutputNode | undefined
+    const serverRenderer = mjPromise?.ssr?.renderer
+    if(typeof window === "undefined" && serverRenderer && mjPromise?.version === 3 && validText(ssrSource)) {
+        try {
+            if(usedRenderMode === "post") serverMarkup = serverRenderer.typeset(escapeHtml(ssrSource!))
+            else if(usedConversionOptions?.fn) {
+                const options = conversionOptions()
+                if(usedReactOutput) serverTree = serverRenderer.convertToTree(text!, usedConversionOptions.fn, options)
+                else serverMarkup = serverRenderer.convert(text!, usedConversionOptions.fn, options)
+            }
+        } catch(err) {
+            // the content is rendered as is and typeset on the client instead
+            serverMarkup = undefined
+            serverTree = undefined
+        }
+    }
+    const serverTypeset = typeof serverMarkup !== "undefined" || typeof serverTree !== "undefined"
+
+    /* on the client, the source of the math at hydration, during which the markup from the server is kept until the math
+    changes, null if this component was not hydrated */
+    const hydratedSource = useRef<string | null>(
+        mjPromise?.ssr?.hydrating && typeof ssrSource === "string" ? ssrSource : null
+    )
+    if(hydratedSource.current !== null && hydratedSource.current !== ssrSource) hydratedSource.current = null
+    // set when the server did not deliver any typeset markup after all
+    const [hydrationMismatch, setHydrationMismatch] = useState(false)
+    const hydrating = hydratedSource.current !== null && !hydrationMismatch
+
+    const scheduler = useTypesettingScheduler(mjPromise)
+
+    // lazy content is not typeset until it has come near the viewport
+    const [nearViewport, setNearViewport] = useState(false)
+    const deferred = lazyOptions !== null && !nearViewport && !hydrating
+    const rootMargin = lazyOptions?.rootMargin ?? DEFAULT_ROOT_MARGIN
+    useEffect(() => {
+        if(!deferred || ref.current === null) return
+        return observeVisibility(ref.current, rootMargin, () => setNearViewport(true))
+    }, [deferred, rootMargin])
+
+    /* with suspense, rendering is suspended until MathJax has loaded and, in render mode "pre", until the math has been
+    converted, after which the output is rendered along with the rest of the component; this is not done on the server
+    or during hydration, where the math from the server is kept, nor for lazy content which is not typeset yet */
+    const suspending = !!(suspense ?? mjPromise?.suspense) && typeof window !== "undefined" && !hydrating && !deferred
+    // the key of the conversion rendered last, which is converted again when the content is typeset again
+    const suspensionKey = useRef<string | null>(null)
+    let suspendedOutput: SuspensionResult<string | MathJaxOutputNode> | null = null
+    if(suspending && typeof mjPromise !== "undefined") {
+        const loaded = suspendOn<unknown>(mjPromise, "load", () => mjPromise.version === 3
+            ? mjPromise.promise.then((mathJax) => mathJax.startup.promise)
+            : mjPromise.promise
+        )
+        // errors from loading MathJax and invalid props are reported like without suspense
+        const convertible = !loaded.failed && mjPromise.version === 3 && usedRenderMode === "pre" && validText(text)
+        if(convertible && usedConversionOptions?.fn) {
+            const fn = usedConversionOptions.fn
+            const options = conversionOptions()
+            const key = JSON.stringify([usedReactOutput ? "tree" : "markup", fn, options, text])
+            suspensionKey.current = key
+            /* the conversion is started during rendering, so it looks up the cache in a microtask since the lookup is
+            reported to the metrics of the context, which must not update other components while this one renders */
+            suspendedOutput = suspendOn(mjPromise, key, () => Promise.resolve().then(() => usedReactOutput
+                ? convertMathToTree(mjPromise.promise, text!, fn, options, mjPromise.cache)
+                : convertMathToMarkup(mjPromise.promise, text!, fn, options, mjPromise.cache)
+            ))
+        }
+    }
+    const suspenseTypeset = suspendedOutput !== null && !suspendedOutput.failed
+    // the conversion whose typesetting run has been completed last
+    const completedSuspension = useRef<SuspensionResult<string | MathJaxOutputNode> | null>(null)
+
+    /* with equation numbering in the context, the math of this component is typeset along with the math of all other
+    components in the context so that equations are numbered in document order */
+    const equations = usedRenderMode === "post" && !deferred && !hydrating ? mjPromise?.equations : undefined
+    useEffect(() => {
+        if(typeof equations === "undefined" || ref.current === null) return
+        return equations.register(ref.current)
+    }, [equations])
+    useEffect(() => equations?.checkOrder())
+
+    // space reserved for lazy content until it has been typeset for the first time
+    const [placeholderShown, setPlaceholderShown] = useState(true)
+    const placeholder = placeholderShown && !serverTypeset && !hydrating
+        ? lazyOptions?.placeholder
+        : undefined
+
+    // signals when typesetting is ongoing, during which further typesetting has to wait (to avoid race conditions)
     const typesetting = useRef(false)
 
+    /* typesetting requested while typesetting was ongoing, which is run when the ongoing typesetting is done; only the
+    latest request is kept so intermediate updates are skipped but the latest content is always typeset */
+    const queuedTypeset = useRef<((run: number) => void) | null>(null)
+
+    // incremented for every typesetting run so that results of runs which have been superseded can be discarded
+    const typesetRun = useRef(0)
+
+    // a run is superseded when newer typesetting has been requested or when the component has unmounted
+    const isSuperseded = (run: number) => run !== typesetRun.current || queuedTypeset.current !== null
+
+    // ends the timing of the ongoing typesetting run in the metrics of the context
+    const typesetTimed = useRef<ReturnType<MathJaxMetrics["typesetStarted"]> | null>(null)
+
+    const requestTypeset = (typeset: (run: number) => void) => {
+        if(typesetting.current) queuedTypeset.current = typeset
+        else {
+            typesetting.current = true
+            if(componentId.current === 0) componentId.current = ++typesetComponents
+            if(mjPromise?.metrics && ref.current !== null)
+                typesetTimed.current = mjPromise.metrics.typesetStarted(
+                    componentId.current,
+                    ref.current,
+                    usedRenderMode === "pre" ? "pre" : "post"
+                )
+            typeset(++typesetRun.current)
+        }
+    }
+
+    // retypesetting requested via the ref, which is settled by the first typesetting run started after the request
+    const requestedRetypesets = useRef<RequestedRetypeset[]>([])
+    const settleRetypesets = (run: number, error?: MathJaxError) => {
+        const settled = requestedRetypesets.current.filter(({ after }) => run > after)
+        requestedRetypesets.current = requestedRetypesets.current.filter(({ after }) => run <= after)
+        settled.forEach(({ resolve, reject }) => error ? reject(error) : resolve())
+    }
+
+    useEffect(() => () => {
+        typesetRun.current++
+        queuedTypeset.current = null
+        requestedRetypesets.current.forEach(({ reject }) =>
+            reject({ phase: "typeset", message: "The MathJax component was unmounted before it was typeset again" })
+        )
+    }, [])
+
+    /* set when the content must be typeset again regardless of whether it is dynamic or not, which is when MathJax has
+    been reconfigured and when retypesetting has been requested via the ref */
+    const typesetAgain = useRef(false)
+    const [, setTypesetAgainRequests] = useState(0)
+    const requestTypesetAgain = () => {
+        typesetAgain.current = true
+        lastChildren.current = ""
+        hydratedSource.current = null
+        if(typeof mjPromise !== "undefined" && suspensionKey.current !== null)
+            forgetSuspension(mjPromise, suspensionKey.current)
+        // the error may have been caused by the configuration, so the content is typeset again instead of the fallback
+        setFailure(null)
+        setTypesetAgainRequests((requests) => requests + 1)
+    }
+    // only the components using the MathJax object which has been reconfigured are typeset again
+    useEffect(() => {
+        if(mjPromise?.version !== 3) return
+        let removeListener: (() => void) | null = null
+        let mounted = true
+        mjPromise.promise.then(
+            (mathJax) => {
+                if(mounted) removeListener = onReconfigured(mathJax, requestTypesetAgain)
+            },
+            // errors from loading MathJax are reported by the MathJaxContext
+            () => undefined
+        )
+        return () => {
+            mounted = false
+            if(removeListener !== null) removeListener()
+        }
+    }, [mjPromise])
+
     // handler for initial loading
     const checkInitLoad = () => {
         if(!initLoad.current) {
             if(usedHideUntilTypeset === "first" && ref.current !== null) {
                 ref.current.style.visibility = "visible"
             }
+            if(placeholder) setPlaceholderShown(false)
             if(onInitTypeset) onInitTypeset()
             initLoad.current = true
         }
     }
 
-    // callback for when typesetting is done
-    const onTypesetDone = () => {
-        if(usedHideUntilTypeset === "every" && usedDynamic && usedRenderMode === "post" && ref.current !== null) {
-            ref.current.style.visibility = rest.style?.visibility ?? "visible"
+    /* reports an error unless it belongs to a superseded run; errors not handled by an onError callback or an error
+    fallback are thrown to the closest error boundary, except for TeX errors, which MathJax shows in its output, and
+    errors from loading MathJax, which are handled by the MathJaxContext */
+    const reportError = (run: number, error: MathJaxError, parseError = false) => {
+        if(isSuperseded(run)) return
+        const usedOnError = onError ?? (error.phase !== "load" ? mjPromise?.onError : undefined)
+        if(usedOnError) usedOnError(error)
+        if(errorFallback) setFailure({ source, error })
+        else if(!usedOnError && !parseError && error.phase !== "load")
+            setUnhandledError(() => {
+                throw Error(typesettingFailed(error))
+            })
+    }
+
+    // TeX errors don't make typesetting fail but result in merror nodes in the output, which are reported as errors
+    const reportParseErrors = (run: number, phase: MathJaxErrorPhase, output: { root: Element; math?: string }[]) =>
+        output.forEach(({ root, math }) =>
+            root.querySelectorAll(`[${PARSE_ERROR_ATTRIBUTE}]`).forEach((node) =>
+                reportError(run, { phase, message: node.getAttribute(PARSE_ERROR_ATTRIBUTE)!, text: math }, true)
+            )
+        )
+
+    // completes a typesetting run, after which any queued typesetting is started
+    const completeTypeset = (run: number, error?: MathJaxError) => {
+        if(typesetTimed.current !== null) {
+            typesetTimed.current(isSuperseded(run), error)
+            typesetTimed.current = null
+        }
+        if(!isSuperseded(run)) {
+            if(usedHideUntilTypeset === "every" && usedDynamic && usedRenderMode === "post" && ref.current !== null) {
+                ref.current.style.visibility = rest.style?.visibility ?? "visible"
+            }
+            checkInitLoad()
+            if(responsiveOptions !== null && ref.current !== null) {
+                if(ref.current.clientWidth > 0) containerWidth.current = ref.current.clientWidth
+                fitResponsiveMath()
+            }
+            if(onTypeset) onTypeset()
+            settleRetypesets(run)
         }
-        checkInitLoad()
-        if(onTypeset) onTypeset()
         typesetting.current = false
+        const queued = queuedTypeset.current
+        queuedTypeset.current = null
+        if(queued !== null) requestTypeset(queued)
+    }
+
+    const onTypesetFailed = (run: number, error: MathJaxError) => {
+        reportError(run, error)
+        if(!isSuperseded(run)) settleRetypesets(run, error)
+        completeTypeset(run, error)
+    }
+
+    /* callback for when a typesetting run is done, before completing it, the styles of MathJax are copied to the shadow
+    root or iframe document the content is in and with accessibility, the math is made accessible */
+    const onTypesetDone = (run: number) => {
+        const element = ref.current
+        const styleRoot = element !== null ? styleRootOf(element) : null
+        if((!usedAccessibility && styleRoot === null) || mjPromise?.version !== 3 || isSuperseded(run) || element === null) {
+            completeTypeset(run)
+            return
+        }
+        mjPromise.promise
+            .then((mathJax) => {
+                if(isSuperseded(run)) return
+                if(styleRoot !== null) copyStyles(mathJax, styleRoot)
+                if(!usedAccessibility) return
+                const speech = makeAccessible(mathJax, mathIn(mathJax, element), typeof label !== "undefined")
+                if(onSpeechText && speech.length > 0) onSpeechText(speech.join(" "))
+            })
+            .then(
+                () => completeTypeset(run),
+                (err) => onTypesetFailed(
+                    run,
+                    createMathJaxError(usedRenderMode === "pre" ? "conversion" : "typeset", err, text)
+                )
+            )
+    }
+
+    // the math of the component, in render mode "pre" the text and otherwise the math MathJax has found in the content
+    const mathIn = (mathJax: MathJax3Object, element: HTMLElement): ExportedMath[] => usedRenderMode === "pre"
+        ? [{
+            math: text || "",
+            format: usedConversionOptions!.fn.match(/^(tex|mathml|asciimath)/)![1],
+            display: !inline,
+            output: element
+        }]
+        : typesetMathIn(mathJax, element)
+
+    const exportMath = (capability: string, exporter: (mathJax: MathJax3Object, math: ExportedMath) => string) => {
+        const element = ref.current
+        if(mjPromise?.version !== 3) return notAvailable(capability)
+        let phase: MathJaxErrorPhase = "load"
+        return mjPromise.promise
+            .then((mathJax) => {
+                phase = "startup"
+                return mathJax.startup.promise.then(() => {
+                    phase = "conversion"
+                    if(element === null) throw Error("The MathJax component is not mounted")
+                    return mathIn(mathJax, element).map((math) => exporter(mathJax, math)).join("\n")
+                })
+            })
+            .catch((err) => Promise.reject(createMathJaxError(phase, err, text)))
+    }
+
+    const getSource = () => {
+        const element = ref.current
+        if(usedRenderMode === "pre") return Promise.resolve(text || "")
+        if(mjPromise?.version === 2 && element !== null)
+            return mjPromise.promise
+                .then((mathJax) => mathJax.Hub.getAllJax(element).map((jax) => jax.originalText).join("\n"))
+                .catch((err) => Promise.reject(createMathJaxError("load", err)))
+        return exportMath("Getting the source", (_, math) => math.math)
+    }
+
+    const retypeset = (): Promise<void> => {
+        const element = ref.current
+        if(typeof mjPromise === "undefined" || element === null)
+            return Promise.reject({ phase: "typeset", message: "The MathJax component is not mounted" })
+        // content which has not been typeset yet is typeset when it comes near the viewport
+        if(deferred) return Promise.resolve()
+        if(mjPromise.version === 2)
+            return mjPromise.promise
+                .then((mathJax) => new Promise<void>((res) => {
+                    mathJax.Hub.Queue(["Reprocess", mathJax.Hub, element])
+                    mathJax.Hub.Queue(() => res())
+                }))
+                .catch((err) => Promise.reject(createMathJaxError("typeset", err)))
+        // typeset math is restored to its source first since MathJax only typesets math it has not typeset already
+        const restored = usedRenderMode === "post"
+            ? mjPromise.promise
+                .then((mathJax) => mathJax.startup.promise.then(() =>
+                    mathJax.startup.document.getMathItemsWithin([element])
+                        .forEach((item: any) => item.removeFromDocument(true))
+                ))
+                .catch((err) => Promise.reject(createMathJaxError("typeset", err)))
+            : Promise.resolve()
+        return restored.then(() => new Promise<void>((resolve, reject) => {
+            requestedRetypesets.current.push({ after: typesetRun.current, resolve, reject })
+            requestTypesetAgain()
+        }))
+    }
+
+    // measures how responsive math overflows its container, which changes when it is typeset, resized or scrolled
+    const fitResponsiveMath = () => {
+        const element = ref.current
+        if(responsiveOptions !== null && element !== null)
+            setOverflowFit((current) => fitOverflow(element, overflow, current))
+    }
+
+    /* when the width of the container of responsive math changes, math which is broken into lines is typeset again for
+    the new width whereas math which is scrolled or scaled only needs to be fitted again */
+    const onResized = useRef<() => void>(() => undefined)
+    onResized.current = () => {
+        const element = ref.current
+        if(element === null || !initLoad.current) return
+        if(overflow === "linebreak" && element.clientWidth > 0 && element.clientWidth !== containerWidth.current) {
+            containerWidth.current = element.clientWidth
+            // failures are reported like for any other typesetting
+            retypeset().catch(() => undefined)
+        } else fitResponsiveMath()
     }
+    const responsiveMath = responsiveOptions !== null
+    useEffect(() => {
+        const element = ref.current
+        if(!responsiveMath || element === null) return
+        let timer: number | undefined
+        const stopObserving = observeResize(element, () => {
+            window.clearTimeout(timer)
+            timer = window.setTimeout(() => onResized.current(), resizeDebounce)
+        })
+        return () => {
+            stopObserving()
+            window.clearTimeout(timer)
+        }
+    }, [responsiveMath, resizeDebounce])
 
-    // validator for text input with renderMode = "pre"
-    const validText = (inputText?: string) => typeof inputText === "string" && inputText.length > 0
+    /* with observe, the parts of the content which children change when they render again on their own are typeset;
+    while other typesetting is ongoing, all content is typeset when it is done instead */
+    const contentObserver = useRef<ContentObserver | null>(null)
+    const onContentChanged = useRef<(changed: HTMLElement[]) => void>(() => undefined)
+    onContentChanged.current = (changed) => {
+        if(deferred || shownError !== null || ref.current === null) return
+        typesetContent(typesetting.current ? [ref.current] : changed)
+    }
+    const observed = !!observe && usedRenderMode === "post" && !hydrating
+    useEffect(() => {
+        const element = ref.current
+        if(!observed || element === null || typeof scheduler === "undefined") return
+        const observer = observeContent(element, scheduler, (changed) => onContentChanged.current(changed))
+        contentObserver.current = observer
+        return () => {
+            observer.disconnect()
+            contentObserver.current = null
+        }
+    }, [observed, scheduler])
+
+    useImperativeHandle(handle, () => ({
+        getSource,
+        toMathML: () => exportMath("Exporting MathML", toMathML),
+        toSVGString: () => exportMath("Exporting SVG", toSVGString),
+        retypeset
+    }))
 
     // guard which resets the visibility to hidden when hiding the content between every typesetting
     if(
@@ -80,6 +573,26 @@ const MathJax: FC<MathJaxProps & ComponentPropsWithoutRef<"span">> = ({
         ref.current.style.visibility = "hidden"
     }
 
+    /* typesets the given elements of the content in render mode "post", in the same batch as other MathJax components
+    rendering at the same time */
+    const typesetContent = (elements: HTMLElement[]) => requestTypeset((run) => {
+        const math = elements.map((element) => element.textContent || "").join("") || undefined
+        Promise.all(elements.map((element) => scheduler!.typeset(element)))
+            .then(() => {
+                if(mjPromise?.version === 3 && !isSuperseded(run))
+                    return mjPromise.promise.then((mathJax) => reportParseErrors(
+                        run,
+                        "typeset",
+                        mathJax.startup.document.getMathItemsWithin(elements)
+                            .map((item) => ({ root: item.typesetRoot, math: item.math }))
+                    ))
+            })
+            .then(
+                () => onTypesetDone(run),
+                (err) => onTypesetFailed(run, createMathJaxError("typeset", err, math))
+            )
+    })
+
     /**
      * Effect for typesetting, important that this does not trigger a new render and runs as seldom as possible (only
      * when needed). It is good that it is in an effect because then we are sure that the DOM to be is ready and
@@ -91,8 +604,45 @@ const MathJax: FC<MathJaxProps & ComponentPropsWithoutRef<"span">> = ({
      * Promise.reject() passed from context (which happens on SSR) on server.
      */
     const effectToUse = typeof window !== "undefined" ? useLayoutEffect : useEffect
+
+    // with React output, a conversion is done when React has rendered its output
+    const outputRendered = useRef<(() => void) | null>(null)
+    effectToUse(() => {
+        const rendered = outputRendered.current
+        outputRendered.current = null
+        if(rendered !== null) rendered()
+    }, [outputTree])
+
     effectToUse(() => {
-        if(usedDynamic || !initLoad.current) {
+        if(hydrating) {
+            if(ref.current !== null && !initLoad.current) {
+                if(ref.current.hasAttribute(SSR_ATTRIBUTE)) {
+                    lastChildren.current = text || ""
+                    checkInitLoad()
+                } else setHydrationMismatch(true)
+            }
+            return
+        }
+        // the error fallback is shown until the content changes
+        if(shownError !== null || deferred) return
+        // with suspense, the output has already been rendered so only the typesetting run for it is completed
+        if(suspendedOutput !== null) {
+            if(suspendedOutput === completedSuspension.current) return
+            const output = suspendedOutput
+            completedSuspension.current = output
+            typesetAgain.current = false
+            lastChildren.current = text!
+            requestTypeset((run) => {
+                if(output.failed) onTypesetFailed(run, createMathJaxError("conversion", output.error, text))
+                else {
+                    if(ref.current !== null) reportParseErrors(run, "conversion", [{ root: ref.current, math: text }])
+                    onTypesetDone(run)
+                }
+            })
+            return
+        }
+        if(usedDynamic || !initLoad.current || typesetAgain.current) {
+            typesetAgain.current = false
             if(ref.current !== null) {
                 if(mjPromise) {
                     if(usedRenderMode === "pre") {
@@ -100,7 +650,7 @@ const MathJax: FC<MathJaxProps & ComponentPropsWithoutRef<"span">> = ({
                             throw Error(
                                 `Render mode 'pre' requires text prop to be set and non-empty, which was currently "${text}"`
                             )
-                        if(!typesettingOptions || !typesettingOptions.fn)
+                        if(!usedConversionOptions?.fn)
                             throw Error(
                                 "Render mode 'pre' requires 'typesettingOptions' prop with 'fn' property to be set on MathJax element or in the MathJaxContext"
                             )
@@ -110,75 +660,55 @@ const MathJax: FC<MathJaxProps & ComponentPropsWithoutRef<"span">> = ({
                             )
                     }
                     if(usedRenderMode === "post" || text !== lastChildren.current) {
-                        if(!typesetting.current) {
-                            typesetting.current = true
-                            if(mjPromise.version === 3) {
-                                mjPromise.promise
-                                    .then((mathJax) => {
-                                        if(usedRenderMode === "pre") {
-                                            const updateFn = (output: HTMLElement) => {
-                                                lastChildren.current = text!
-                                                mathJax.startup.document.clear()
-                                                mathJax.startup.document.updateDocument()
-                                                if(ref.current !== null) ref.current.innerHTML = output.outerHTML
-                                                onTypesetDone()
+                        const element = ref.current
+                        if(mjPromise.version === 3 && usedRenderMode === "pre") {
+                            lastChildren.current = text!
+                            if(usedReactOutput) requestTypeset((run) => {
+                                convertMathToTree(
+                                    mjPromise.promise,
+                                    text!,
+                                    usedConversionOptions!.fn,
+                                    conversionOptions(),
+                                    mjPromise.cache
+                                )
+                                    .then((tree) => {
+                                        if(isSuperseded(run)) onTypesetDone(run)
+                                        else {
+                                            outputRendered.current = () => {
+                                                if(ref.current !== null)
+                                                    reportParseErrors(run, "conversion", [{ root: ref.current, math: text }])
+                                                onTypesetDone(run)
                                             }
-                                            if(typesettingOptions!.fn.endsWith("Promise"))
-                                                mathJax.startup.promise
-                                                    .then(() =>
-                                                        mathJax[usedConversionOptions!.fn](text, {
-                                                            ...(usedConversionOptions?.options || {}),
-                                                            display: !inline
-                                                        })
-                                                    )
-                                                    .then(updateFn)
-                                                    .catch((err) => {
-                                                        onTypesetDone()
-                                                        throw Error(typesettingFailed(err))
-                                                    })
-                                            else
-                                                mathJax.startup.promise
-                                                    .then(() => {
-                                                        const output = mathJax[usedConversionOptions!.fn](text, {
-                                                            ...(usedConversionOptions?.options || {}),
-                                                            display: !inline
-                                                        })
-                                                        updateFn(output)
-                                                    })
-                                                    .catch((err) => {
-                                                        onTypesetDone()
-                                                        throw Error(typesettingFailed(err))
-                                                    })
-                                        } else {
-                                            // renderMode "post"
-                                            mathJax.startup.promise
-                                                .then(() => {
-                                                    mathJax.typesetClear([ref.current])
-                                                    return mathJax.typesetPromise([ref.current])
-                                                })
-                                                .then(onTypesetDone)
-                                                .catch((err) => {
-                                                    onTypesetDone()
-                                                    throw Error(typesettingFailed(err))
-                                                })
+                                            setOutputTree(tree)
                                         }
                                     })
-                                    .catch((err) => {
-                                        onTypesetDone()
-                                        throw Error(typesettingFailed(err))
-                                    })
-                            } else {
-                                // version 2
-                                mjPromise.promise
-                                    .then((mathJax) => {
-                                        mathJax.Hub.Queue(["Typeset", mathJax.Hub, ref.current])
-                                        mathJax.Hub.Queue(onTypesetDone)
-                                    })
-                                    .catch((err) => {
-                                        onTypesetDone()
-                                        throw Error(typesettingFailed(err))
+                                    .catch((err) => onTypesetFailed(run, createMathJaxError("conversion", err, text)))
+                            })
+                            else requestTypeset((run) => {
+                                convertMathToMarkup(
+                                    mjPromise.promise,
+                                    text!,
+                                    usedConversionOptions!.fn,
+                                    conversionOptions(),
+                                    mjPromise.cache
+                                )
+                                    .then((markup) => {
+                                        // output of a superseded run must not overwrite newer output
+                                        if(!isSuperseded(run) && ref.current !== null) {
+                                            ref.current.innerHTML = markup
+                                            reportParseErrors(run, "conversion", [{ root: ref.current, math: text }])
+                                        }
                                     })
-                            }
+                                    .then(
+                                        () => onTypesetDone(run),
+                                        (err) => onTypesetFailed(run, createMathJaxError("conversion", err, text))
+                                    )
+                            })
+                        } else {
+                            /* renderMode "post" (the only render mode with version 2), all content is typeset so the
+                            changes observed in it don't need to be typeset separately */
+                            contentObserver.current?.discard()
+                            typesetContent([element])
                         }
                     }
                 } else
@@ -189,19 +719,56 @@ const MathJax: FC<MathJaxProps & ComponentPropsWithoutRef<"span">> = ({
         }
     })
 
+    /* markup typeset on the server is added as raw html (or rendered by React with React output) and on the client, the
+    same markup is kept as is during hydration by setting empty raw html and suppressing the warnings about the mismatch */
+    const contentProps = typeof serverMarkup !== "undefined"
+        ? { [SSR_ATTRIBUTE]: "", dangerouslySetInnerHTML: { __html: serverMarkup } }
+        : typeof serverTree !== "undefined"
+            ? { [SSR_ATTRIBUTE]: "", children: toReactNode(serverTree) }
+            : suspenseTypeset
+                ? usedReactOutput
+                    ? { children: toReactNode(suspendedOutput!.value as MathJaxOutputNode) }
+                    : { dangerouslySetInnerHTML: { __html: suspendedOutput!.value as string } }
+                : hydrating
+                    ? { suppressHydrationWarning: true, dangerouslySetInnerHTML: { __html: "" } }
+                    : { children: usedReactOutput && outputTree !== null ? toReactNode(outputTree) : children }
+
+    // a label replaces the accessible name of the math in the content
+    const labelProps = typeof label !== "undefined" ? { role: "math", "aria-label": label } : {}
+
+    // the content is kept but hidden while the error fallback is shown so that React and MathJax don't collide
     return (
-        <span
-            {...rest}
-            style={{
-                display: inline ? "inline" : "block",
-                ...rest.style,
-                visibility: usedHideUntilTypeset ? "hidden" : rest.style?.visibility
-            }}
-            ref={ref}
-        >
-            {children}
-        </span>
+        <>
+            <span
+                {...rest}
+                {...contentProps}
+                {...labelProps}
+                onScroll={(event) => {
+                    fitResponsiveMath()
+                    if(rest.onScroll) rest.onScroll(event)
+                }}
+                style={{
+                    display: inline ? "inline" : "block",
+                    ...(responsiveOptions !== null ? overflowStyle(overflow, overflowFit) : {}),
+                    ...(placeholder
+                        ? {
+                            minWidth: placeholder.width,
+                            minHeight: placeholder.height,
+                            // the height of inline elements can only be reserved when they are inline blocks
+                            ...(inline && typeof placeholder.height !== "undefined" ? { display: "inline-block" } : {})
+                        }
+                        : {}),
+                    ...rest.style,
+                    visibility: usedHideUntilTypeset && !serverTypeset && !suspenseTypeset
+                        ? "hidden"
+                        : rest.style?.visibility,
+                    ...(shownError !== null ? { display: "none" } : {})
+                }}
+                ref={ref}
+            />
+            {shownError !== null ? errorFallback!(shownError) : null}
+        </>
     )
-}
+})
 
 export default MathJax
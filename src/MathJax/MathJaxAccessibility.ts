@@ -0,0 +1,69 @@
+import type { MathJax3Object } from "../MathJax3"
+import { ExportedMath, toMathML } from "./MathJaxExport"
+
+// marks assistive MathML added by the MathJax component, which is replaced every time the math is typeset
+const ADDED_ATTRIBUTE = "data-mathjax-assistive"
+
+// MathJax adds this attribute to the output of math it has enriched semantically, with the speech of the math
+const SPEECH_ATTRIBUTE = "data-semantic-speech"
+
+/* MathJax without its assistive MathML extension has no styles for assistive MathML, so it is hidden visually by the
+same styles as the ones of the extension */
+const ASSISTIVE_STYLE = "position: absolute; top: 0; left: 0; clip: rect(1px, 1px, 1px, 1px); padding: 1px 0 0 0; " +
+    "border: 0; display: block; width: auto; overflow: hidden; user-select: none"
+
+// the element MathJax has put the output of the math in, which is the MathML itself with MathML output
+const outputOf = (math: ExportedMath) => math.output.localName === "mjx-container"
+    ? math.output as HTMLElement
+    : math.output.querySelector<HTMLElement>("mjx-container, math")
+
+// adds MathML for assistive technology to the output unless MathJax has added it with its assistive MathML extension
+const attachAssistiveMml = (mathJax: MathJax3Object, math: ExportedMath, container: HTMLElement) => {
+    Array.from(container.children)
+        .filter((child) => child.hasAttribute(ADDED_ATTRIBUTE))
+        .forEach((child) => container.removeChild(child))
+    if(container.querySelector("mjx-assistive-mml") !== null) return
+    const assistive = container.ownerDocument.createElement("mjx-assistive-mml")
+    assistive.setAttribute(ADDED_ATTRIBUTE, "")
+    assistive.setAttribute("unselectable", "on")
+    assistive.setAttribute("display", math.display ? "block" : "inline")
+    assistive.setAttribute("style", ASSISTIVE_STYLE)
+    assistive.innerHTML = toMathML(mathJax, math).replace(/\n */g, "")
+    container.firstElementChild?.setAttribute("aria-hidden", "true")
+    container.style.position = "relative"
+    container.appendChild(assistive)
+}
+
+// the speech of the math from the semantic enrichment of MathJax, if it is enabled
+const speechOf = (container: HTMLElement | null) =>
+    container?.querySelector(`[${SPEECH_ATTRIBUTE}]`)?.getAttribute(SPEECH_ATTRIBUTE) || undefined
+
+/**
+ * Makes typeset math accessible by attaching assistive MathML to its output and labelling the output with the speech
+ * of the math, or by hiding the output from assistive technology if the MathJax component is labelled as a whole.
+ * Without speech, the output is not labelled so that assistive technology reads the assistive MathML rather than a
+ * label with the source of the math. Returns the speech of the pieces of math which have speech.
+ */
+export const makeAccessible = (mathJax: MathJax3Object, maths: ExportedMath[], labelled: boolean) =>
+    maths.map((math) => {
+        const container = outputOf(math)
+        const speech = speechOf(container)
+        if(container === null) return speech
+        const mathMLOutput = container.localName === "math"
+        if(!mathMLOutput) attachAssistiveMml(mathJax, math, container)
+        if(labelled) {
+            container.removeAttribute("role")
+            container.removeAttribute("aria-label")
+            container.setAttribute("aria-hidden", "true")
+        } else if(!mathMLOutput) {
+            container.removeAttribute("aria-hidden")
+            if(typeof speech !== "undefined") {
+                container.setAttribute("role", "math")
+                container.setAttribute("aria-label", speech)
+            } else {
+                container.removeAttribute("role")
+                container.removeAttribute("aria-label")
+            }
+        }
+        return speech
+    }).filter((speech): speech is string => typeof speech !== "undefined")
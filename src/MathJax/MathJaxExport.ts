@@ -0,0 +1,45 @@
+import type { MathJax3Object } from "../MathJax3"
+
+// a piece of math in a MathJax component
+export interface ExportedMath {
+    math: string
+    // the name of the input format in the names of the conversion functions of MathJax
+    format: string
+    display: boolean
+    // the internal MathML of math typeset in the page, which math converted with render mode "pre" lacks
+    root?: any
+    // the element with the output of MathJax for the math
+    output: Element
+}
+
+const INPUT_FORMATS: Record<string, string> = { TeX: "tex", MathML: "mathml", AsciiMath: "asciimath" }
+
+// the math MathJax has typeset in the element (render mode "post")
+export const typesetMathIn = (mathJax: MathJax3Object, element: HTMLElement): ExportedMath[] =>
+    mathJax.startup.document.getMathItemsWithin([element]).map((item: any) => ({
+        math: item.math,
+        format: INPUT_FORMATS[item.inputJax.name],
+        display: item.display,
+        root: item.root,
+        output: item.typesetRoot
+    }))
+
+export const toMathML = (mathJax: MathJax3Object, math: ExportedMath): string =>
+    typeof math.root !== "undefined"
+        ? mathJax.startup.toMML(math.root)
+        : (mathJax as any)[`${math.format}2mml`](math.math, { display: math.display })
+
+/**
+ * Returns the SVG output of the math, which is taken from the page with SVG output and otherwise converted with the
+ * SVG output processor if MathJax has one. With the global font cache of the SVG output, the returned SVG refers to
+ * the paths of the characters in the cache instead of containing them.
+ */
+export const toSVGString = (mathJax: MathJax3Object, math: ExportedMath): string => {
+    const shown = math.output.querySelector("svg")
+    if(shown !== null) return shown.outerHTML
+    const convert = (mathJax as any)[`${math.format}2svg`]
+    if(typeof convert !== "function")
+        throw Error("SVG output is not available since MathJax has been loaded without the SVG output processor")
+    const converted: HTMLElement = convert(math.math, { display: math.display })
+    return converted.querySelector("svg")!.outerHTML
+}
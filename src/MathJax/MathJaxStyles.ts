@@ -0,0 +1,48 @@
+import type { MathJax3Object } from "../MathJax3"
+
+// marks copies of the stylesheets of MathJax, with the id of the stylesheet they are a copy of
+const COPY_ATTRIBUTE = "data-mathjax-styles"
+
+type StyleRoot = ShadowRoot | Document
+
+// checked without instanceof since shadow roots in other documents are instances of the classes of those documents
+const isShadowRoot = (node: Node): node is ShadowRoot => node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && "host" in node
+
+/**
+ * Returns the shadow root or the document, such as the one of a same-origin iframe, which the element is in if it is
+ * not in the page MathJax adds its stylesheets to, and null otherwise.
+ */
+export const styleRootOf = (element: Element): StyleRoot | null => {
+    const root = element.getRootNode()
+    if(root === window.document) return null
+    if(isShadowRoot(root)) return root
+    return root.nodeType === Node.DOCUMENT_NODE ? root as Document : null
+}
+
+// rules added after the stylesheet was created, which CHTML output does for every new character, are not in its text
+const cssText = (sheet: HTMLStyleElement) => sheet.sheet
+    ? Array.from(sheet.sheet.cssRules).map((rule) => rule.cssText).join("\n")
+    : sheet.textContent || ""
+
+/**
+ * Copies the stylesheet of the output of MathJax, which MathJax only adds to the head of the page, to the shadow root
+ * or document. The copy is updated every time since the stylesheet of CHTML output only has styles for the characters
+ * typeset so far. The fonts of CHTML output are declared in the copy as well, but browsers ignore fonts declared in
+ * shadow roots, which use the ones declared in the page instead.
+ */
+export const copyStyles = (mathJax: MathJax3Object, root: StyleRoot) => {
+    const mathDocument = mathJax.startup.document
+    const sheet: HTMLStyleElement = mathDocument.outputJax.styleSheet(mathDocument)
+    const id = sheet.id
+    const ownerDocument = isShadowRoot(root) ? root.ownerDocument : root
+    let copy = Array.from(root.querySelectorAll(`style[${COPY_ATTRIBUTE}]`))
+        .find((style) => style.getAttribute(COPY_ATTRIBUTE) === id)
+    if(typeof copy === "undefined") {
+        copy = ownerDocument.createElement("style")
+        copy.setAttribute(COPY_ATTRIBUTE, id)
+        if(isShadowRoot(root)) root.insertBefore(copy, root.firstChild)
+        else (root.head || root.documentElement).appendChild(copy)
+    }
+    const text = cssText(sheet)
+    if(copy.textContent !== text) copy.textContent = text
+}
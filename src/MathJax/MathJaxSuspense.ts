@@ -0,0 +1,72 @@
+import type { MathJaxSubscriberProps } from "../MathJaxContext"
+
+interface Suspension {
+    // settles when the awaited work has settled, never rejects
+    promise: Promise<void>
+    settled: boolean
+    result: SuspensionResult<any>
+}
+
+export interface SuspensionResult<T> {
+    failed: boolean
+    value?: T
+    error?: any
+}
+
+// the number of settled suspensions kept per context so that components rendering the same math don't suspend again
+const SETTLED_SUSPENSIONS = 100
+
+/* the work MathJax components suspend on, per context so that contexts with different configurations don't share
+results; the work has to be kept outside of the components since React discards their state when they suspend before
+they have mounted */
+const suspensions = new WeakMap<MathJaxSubscriberProps, Map<string, Suspension>>()
+
+const suspensionsOf = (context: MathJaxSubscriberProps) => {
+    let contextSuspensions = suspensions.get(context)
+    if(typeof contextSuspensions === "undefined") {
+        contextSuspensions = new Map<string, Suspension>()
+        suspensions.set(context, contextSuspensions)
+    }
+    return contextSuspensions
+}
+
+/**
+ * Returns the result of the work identified by the key in the context, which is started the first time the key is
+ * read. While the work is pending, the promise React suspends on is thrown so that the closest Suspense boundary shows
+ * its fallback and the component is rendered again when the work has settled.
+ */
+export const suspendOn = <T>(
+    context: MathJaxSubscriberProps,
+    key: string,
+    work: () => Promise<T>
+): SuspensionResult<T> => {
+    const contextSuspensions = suspensionsOf(context)
+    let suspension = contextSuspensions.get(key)
+    if(typeof suspension === "undefined") {
+        const started: Suspension = { promise: Promise.resolve(), settled: false, result: { failed: false } }
+        started.promise = work().then(
+            (value) => {
+                started.result = { failed: false, value }
+            },
+            (error) => {
+                started.result = { failed: true, error }
+            }
+        ).then(() => {
+            started.settled = true
+        })
+        contextSuspensions.set(key, started)
+        // a Map iterates in insertion order so the oldest settled suspension is the first settled one
+        if(contextSuspensions.size > SETTLED_SUSPENSIONS) {
+            const oldest = Array.from(contextSuspensions.keys()).find((other) => contextSuspensions.get(other)!.settled)
+            if(typeof oldest !== "undefined") contextSuspensions.delete(oldest)
+        }
+        suspension = started
+    }
+    if(!suspension.settled) throw suspension.promise
+    return suspension.result
+}
+
+// forgets the result of the work so that it is started again the next time the key is read
+export const forgetSuspension = (context: MathJaxSubscriberProps, key: string) => {
+    suspensionsOf(context).delete(key)
+}
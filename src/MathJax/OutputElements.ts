@@ -0,0 +1,46 @@
+import { createElement, CSSProperties, ReactNode } from "react"
+import type { MathJaxOutputNode } from "../MathJaxContext/MathJaxConversion"
+
+// attributes which React knows by other names
+const PROPERTY_NAMES: Record<string, string> = {
+    "class": "className",
+    "for": "htmlFor",
+    "tabindex": "tabIndex",
+    "xlink:href": "xlinkHref",
+    "xmlns:xlink": "xmlnsXlink",
+    "xml:space": "xmlSpace"
+}
+
+const camelCase = (name: string) => name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase())
+
+const propertyName = (tag: string, name: string) => {
+    // React sets the props of custom elements, like the ones in CHTML output, as attributes by the same names
+    if(tag.indexOf("-") !== -1 || /^(data|aria)-/.test(name)) return name
+    return PROPERTY_NAMES[name] ?? camelCase(name)
+}
+
+const parseStyle = (style: string) => {
+    const properties: Record<string, string> = {}
+    style.split(";").forEach((declaration) => {
+        const colon = declaration.indexOf(":")
+        if(colon === -1) return
+        const property = declaration.substring(0, colon).trim()
+        // custom properties keep their names
+        properties[property.startsWith("--") ? property : camelCase(property)] = declaration.substring(colon + 1).trim()
+    })
+    return properties as CSSProperties
+}
+
+/**
+ * Creates React elements from the output of MathJax so that React can render it and update it by reconciliation.
+ */
+export const toReactNode = (node: MathJaxOutputNode, key?: number): ReactNode => {
+    if(typeof node === "string") return node
+    const props: Record<string, unknown> = { key }
+    Object.keys(node.attributes).forEach((name) => {
+        const value = node.attributes[name]
+        if(name === "style") props.style = parseStyle(value)
+        else props[propertyName(node.tag, name)] = value
+    })
+    return createElement(node.tag, props, ...node.children.map((child, index) => toReactNode(child, index)))
+}
@@ -0,0 +1,52 @@
+import type { CSSProperties } from "react"
+
+export type MathJaxOverflow = "scroll" | "scale" | "linebreak"
+
+// how display math which is wider than its container is fitted into it
+export interface OverflowFit {
+    // the factor the math is scaled down by
+    scale: number
+    // whether there is math scrolled out of view at the start and the end respectively
+    hiddenStart: boolean
+    hiddenEnd: boolean
+}
+
+export const NO_OVERFLOW: OverflowFit = { scale: 1, hiddenStart: false, hiddenEnd: false }
+
+// width of the fade at an edge behind which math is scrolled out of view
+const FADE_WIDTH = "1.5em"
+
+/**
+ * Measures how the content of the element overflows it and returns how it should be fitted, which is the current fit
+ * if nothing has changed so that the component is not rendered again.
+ */
+export const fitOverflow = (element: HTMLElement, overflow: MathJaxOverflow, current: OverflowFit): OverflowFit => {
+    let fit: OverflowFit
+    if(overflow === "scale") {
+        // the width of the math if it was not scaled down
+        const naturalWidth = element.scrollWidth / current.scale
+        const available = element.clientWidth
+        fit = { ...NO_OVERFLOW, scale: naturalWidth > available && naturalWidth > 0 ? available / naturalWidth : 1 }
+    } else
+        fit = {
+            scale: 1,
+            hiddenStart: element.scrollLeft > 0,
+            // the scroll position can be fractional
+            hiddenEnd: element.scrollLeft + element.clientWidth < element.scrollWidth - 1
+        }
+    return fit.scale === current.scale && fit.hiddenStart === current.hiddenStart && fit.hiddenEnd === current.hiddenEnd
+        ? current
+        : fit
+}
+
+/* math which does not fit is scrolled horizontally, with the edges behind which math is hidden faded out, or scaled down
+by decreasing the font size, which both CHTML and SVG output are sized by; MathJax 3 has no automatic line breaking,
+so math which has been typeset anew for the new width is scrolled if it still does not fit */
+export const overflowStyle = (overflow: MathJaxOverflow, fit: OverflowFit): CSSProperties => {
+    if(overflow === "scale") return fit.scale < 1 ? { fontSize: `${fit.scale * 100}%` } : {}
+    if(!fit.hiddenStart && !fit.hiddenEnd) return { overflowX: "auto", overflowY: "hidden" }
+    const mask = "linear-gradient(to right, " +
+        `${fit.hiddenStart ? `transparent, black ${FADE_WIDTH}` : "black"}, ` +
+        `${fit.hiddenEnd ? `black calc(100% - ${FADE_WIDTH}), transparent` : "black"})`
+    return { overflowX: "auto", overflowY: "hidden", maskImage: mask, WebkitMaskImage: mask }
+}
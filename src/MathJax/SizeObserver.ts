@@ -0,0 +1,30 @@
+type ResizeCallback = () => void
+
+/* one ResizeObserver is shared by all responsive MathJax components since pages with thousands of elements would
+otherwise create thousands of observers */
+let observer: ResizeObserver | undefined
+const callbacks = new Map<Element, ResizeCallback>()
+
+/**
+ * Calls the callback every time the element has been resized, and once when observing starts. Returns a function which
+ * stops observing the element. Without support for ResizeObserver, the callback is never called.
+ */
+export const observeResize = (element: Element, callback: ResizeCallback) => {
+    if(typeof ResizeObserver === "undefined") return () => undefined
+    if(typeof observer === "undefined")
+        observer = new ResizeObserver((entries) => entries.forEach((entry) => {
+            const resized = callbacks.get(entry.target)
+            if(typeof resized !== "undefined") resized()
+        }))
+    callbacks.set(element, callback)
+    observer.observe(element)
+    return () => {
+        if(!callbacks.has(element)) return
+        callbacks.delete(element)
+        observer!.unobserve(element)
+        if(callbacks.size === 0) {
+            observer!.disconnect()
+            observer = undefined
+        }
+    }
+}
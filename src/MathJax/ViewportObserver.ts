@@ -0,0 +1,48 @@
+type VisibilityCallback = () => void
+
+interface SharedObserver {
+    observer: IntersectionObserver
+    callbacks: Map<Element, VisibilityCallback>
+}
+
+/* one IntersectionObserver per root margin is shared by all lazy MathJax components since pages with thousands of
+elements would otherwise create thousands of observers */
+const observers = new Map<string, SharedObserver>()
+
+const unobserve = (rootMargin: string, element: Element) => {
+    const shared = observers.get(rootMargin)
+    if(typeof shared === "undefined" || !shared.callbacks.has(element)) return
+    shared.callbacks.delete(element)
+    shared.observer.unobserve(element)
+    if(shared.callbacks.size === 0) {
+        shared.observer.disconnect()
+        observers.delete(rootMargin)
+    }
+}
+
+/**
+ * Calls the callback once when the element comes within the root margin of the viewport. Returns a function which
+ * stops observing the element. Without support for IntersectionObserver, the callback is called right away.
+ */
+export const observeVisibility = (element: Element, rootMargin: string, callback: VisibilityCallback) => {
+    if(typeof IntersectionObserver === "undefined") {
+        callback()
+        return () => undefined
+    }
+    let shared = observers.get(rootMargin)
+    if(typeof shared === "undefined") {
+        const callbacks = new Map<Element, VisibilityCallback>()
+        const observer = new IntersectionObserver((entries) => entries.forEach((entry) => {
+            const visible = callbacks.get(entry.target)
+            if(entry.isIntersecting && typeof visible !== "undefined") {
+                unobserve(rootMargin, entry.target)
+                visible()
+            }
+        }), { rootMargin })
+        shared = { observer, callbacks }
+        observers.set(rootMargin, shared)
+    }
+    shared.callbacks.set(element, callback)
+    shared.observer.observe(element)
+    return () => unobserve(rootMargin, element)
+}
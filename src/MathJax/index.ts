@@ -1 +1,2 @@
-export { default as MathJax, default, MathJaxProps } from "./MathJax"
+export { default as MathJax, default, MathJaxProps, MathJaxHandle, MathJaxResponsiveOptions } from "./MathJax"
+export { MathJaxOverflow } from "./OverflowFit"
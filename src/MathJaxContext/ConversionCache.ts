@@ -0,0 +1,52 @@
+export interface ConversionCacheStats {
+    hits: number
+    misses: number
+    // number of conversions currently in the cache
+    size: number
+    maxSize: number
+}
+
+/**
+ * Least recently used cache of conversions in render mode "pre", shared by all MathJax components of a MathJaxContext.
+ * The promises of the conversions are cached so that identical math rendered at the same time is only converted once.
+ */
+export interface ConversionCache {
+    convert: (key: string, conversion: () => Promise<string>) => Promise<string>
+    clear: () => void
+    stats: () => ConversionCacheStats
+}
+
+// onLookup is called with whether the conversion was found in the cache every time a conversion is looked up
+export const createConversionCache = (maxSize: number, onLookup?: (hit: boolean) => void): ConversionCache => {
+    // a Map iterates in insertion order so the least recently used entry is always the first one
+    const entries = new Map<string, Promise<string>>()
+    let hits = 0
+    let misses = 0
+
+    const convert = (key: string, conversion: () => Promise<string>) => {
+        const cached = entries.get(key)
+        if(typeof cached !== "undefined") {
+            hits++
+            if(onLookup) onLookup(true)
+            entries.delete(key)
+            entries.set(key, cached)
+            return cached
+        }
+        misses++
+        if(onLookup) onLookup(false)
+        const converted = conversion()
+        entries.set(key, converted)
+        if(entries.size > maxSize) entries.delete(entries.keys().next().value)
+        // failed conversions are not cached
+        converted.catch(() => {
+            if(entries.get(key) === converted) entries.delete(key)
+        })
+        return converted
+    }
+
+    const clear = () => entries.clear()
+
+    const stats = () => ({ hits, misses, size: entries.size, maxSize })
+
+    return { convert, clear, stats }
+}
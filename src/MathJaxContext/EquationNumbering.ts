@@ -0,0 +1,128 @@
+import type { MathJax3Object } from "../MathJax3"
+
+export interface EquationLabel {
+    // the number of the equation, or the tag given with \tag
+    tag: string
+    // id of the equation number in the output of MathJax, which references link to
+    id: string
+}
+
+type LabelListener = () => void
+
+/**
+ * Keeps track of the elements of all MathJax components in a MathJaxContext with equation numbering so that their
+ * equations are numbered in document order and their labels can be referenced from any of the components. The math
+ * in all elements is typeset again together whenever an element is typeset, removed or moved.
+ */
+export interface EquationNumbering {
+    // adds the element of a MathJax component, returns a function which removes it and numbers the equations again
+    register: (element: HTMLElement) => () => void
+    // numbers the equations again if the elements have been moved since they were numbered
+    checkOrder: () => void
+    // typesets the given elements along with all other elements in the context and updates the labels
+    typeset: (mathJax: MathJax3Object, elements: HTMLElement[]) => Promise<void>
+    label: (name: string) => EquationLabel | undefined
+    // calls the listener every time the labels have been updated, returns a function which removes the listener
+    onLabelsChanged: (listener: LabelListener) => () => void
+}
+
+// whether the node comes before the other node in the page, in which both must be
+const precedes = (node: Node, other: Node) => {
+    const position = node.compareDocumentPosition(other)
+    return position === Node.DOCUMENT_POSITION_FOLLOWING ||
+        position === Node.DOCUMENT_POSITION_FOLLOWING + Node.DOCUMENT_POSITION_CONTAINED_BY
+}
+
+const inDocumentOrder = (elements: HTMLElement[]) => elements.sort((a, b) => a === b ? 0 : precedes(a, b) ? -1 : 1)
+
+/* math found in several elements is merged by its position within each element rather than in the page, so the math
+list of the document is sorted in document order before it is compiled; math typeset before, which is not in the
+page anymore, is put first */
+const sortMath = (mathDocument: any) => {
+    const items: any[] = Array.from(mathDocument.math)
+    const nodes = items.map((item) => item.start.node as Node)
+    const positions = new Map<any, number>()
+    items
+        .map((_, index) => index)
+        .filter((index) => nodes[index].isConnected)
+        .sort((a, b) => nodes[a] === nodes[b]
+            ? items[a].start.n - items[b].start.n
+            : precedes(nodes[a], nodes[b]) ? -1 : 1
+        )
+        .forEach((index, position) => positions.set(items[index], position))
+    const positionOf = (item: any) => positions.has(item) ? positions.get(item)! : -1
+    mathDocument.math.sort((a: any, b: any) => positionOf(a) < positionOf(b))
+}
+
+export const createEquationNumbering = (renumber: () => void): EquationNumbering => {
+    const registered: HTMLElement[] = []
+    // the elements in the order they were last numbered in
+    let numbered: HTMLElement[] = []
+    let orderCheckScheduled = false
+    let labels: Record<string, EquationLabel> = {}
+    const listeners: LabelListener[] = []
+
+    const register = (element: HTMLElement) => {
+        registered.push(element)
+        return () => {
+            const index = registered.indexOf(element)
+            if(index === -1) return
+            registered.splice(index, 1)
+            renumber()
+        }
+    }
+
+    // checked once per microtask since every MathJax component checks the order when it renders
+    const checkOrder = () => {
+        if(orderCheckScheduled) return
+        orderCheckScheduled = true
+        Promise.resolve().then(() => {
+            orderCheckScheduled = false
+            const current = inDocumentOrder(registered.filter((element) => element.isConnected))
+            // elements which have been added or removed are numbered when they are typeset or removed
+            const moved = current.length === numbered.length &&
+                current.every((element) => numbered.indexOf(element) !== -1) &&
+                current.some((element, index) => element !== numbered[index])
+            if(moved) renumber()
+        })
+    }
+
+    const typeset = (mathJax: MathJax3Object, elements: HTMLElement[]) => {
+        const mathDocument = mathJax.startup.document
+        const others = registered.filter((element) => element.isConnected && elements.indexOf(element) === -1)
+        const all = inDocumentOrder([...elements, ...others])
+        // math in the other elements is restored to its source so that it is numbered again along with the rest
+        mathDocument.getMathItemsWithin(others).forEach((item: any) => item.removeFromDocument(true))
+        mathJax.typesetClear(all)
+        // resets the equation numbers and labels of TeX
+        mathDocument.inputJax.forEach((jax: any) => jax.reset())
+        mathDocument.options.elements = all
+        mathDocument.reset()
+        return mathJax._.mathjax.mathjax.handleRetriesFor(() => {
+            mathDocument.findMath()
+            sortMath(mathDocument)
+            mathDocument.render()
+        }).then(() => {
+            numbered = all
+            const tex: any = mathDocument.inputJax.find((jax: any) => jax.name === "TeX")
+            const allLabels: Record<string, EquationLabel> = tex?.parseOptions.tags.allLabels || {}
+            labels = {}
+            Object.keys(allLabels).forEach((name) => {
+                labels[name] = { tag: allLabels[name].tag, id: allLabels[name].id }
+            })
+            listeners.forEach((listener) => listener())
+        })
+    }
+
+    const label = (name: string) => labels[name]
+
+    const onLabelsChanged = (listener: LabelListener) => {
+        listeners.push(listener)
+        return () => {
+            const index = listeners.indexOf(listener)
+            if(index !== -1) listeners.splice(index, 1)
+        }
+    }
+
+    return { register, checkOrder, typeset, label, onLabelsChanged }
+}
@@ -1,6 +1,6 @@
 // @ts-ignore
 import React, { FC, ReactElement, useContext } from "react"
-import { render } from "@testing-library/react"
+import { render, waitFor } from "@testing-library/react"
 import MathJaxContext, { MathJaxBaseContext } from "./MathJaxContext"
 import MathJax from "../MathJax"
 
@@ -168,3 +168,145 @@ it("contexts with different versions are not allowed", async () => {
         )
     expect(rendered).toThrow(/^Cannot use MathJax versions 2 and 3 simultaneously/)
 }, 15000)
+
+it("falls back to the next source and loads again after a failed load has been reset", () => {
+    return new Promise<void>((res, rej) => {
+        jest.isolateModules(async () => {
+            const { default: MathJaxContext, resetFailedLoad } = require("./MathJaxContext")
+            const scripts: HTMLScriptElement[] = []
+            const originalGetElementsByTagName = document.getElementsByTagName
+            document.getElementsByTagName = (_tagName: string) =>
+                [{ appendChild: (script: HTMLScriptElement) => scripts.push(script) }] as any
+            const onError = jest.fn()
+            const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+            const getContext = () => (
+                <MathJaxContext
+                    src={["https://first.example/mathjax.js", "https://second.example/mathjax.js"]}
+                    nonce="abc"
+                    integrity={["sha384-abc", "sha384-xyz"]}
+                    onError={onError}
+                />
+            )
+            try {
+                const rendered = render(getContext())
+                expect(resetFailedLoad()).toBe(false)
+                expect(scripts[0].integrity).toBe("sha384-abc")
+                scripts[0].dispatchEvent(new Event("error"))
+                await flush()
+                expect(scripts).toHaveLength(2)
+                expect(scripts[1].getAttribute("src")).toBe("https://second.example/mathjax.js")
+                expect(scripts[1].nonce).toBe("abc")
+                expect(scripts[1].integrity).toBe("sha384-xyz")
+                expect(scripts[1].crossOrigin).toBe("anonymous")
+                scripts[1].dispatchEvent(new Event("error"))
+                await flush()
+                expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+                    phase: "load",
+                    message: "Failed to download MathJax version 3 from 'https://first.example/mathjax.js', " +
+                        "'https://second.example/mathjax.js'"
+                }))
+                rendered.unmount()
+                render(getContext())
+                expect(scripts).toHaveLength(2)
+                expect(resetFailedLoad()).toBe(true)
+                render(getContext())
+                expect(scripts).toHaveLength(3)
+                expect(scripts[2].getAttribute("src")).toBe("https://first.example/mathjax.js")
+                res()
+            }
+            catch(e) {
+                rej(e)
+            }
+            finally {
+                document.getElementsByTagName = originalGetElementsByTagName
+            }
+        })
+    })
+}, 15000)
+
+it("keeps the MathJax of the page when a script which timed out loads late", () => {
+    return new Promise<void>((res, rej) => {
+        jest.isolateModules(async () => {
+            const { default: MathJaxContext } = require("./MathJaxContext")
+            const scripts: HTMLScriptElement[] = []
+            const originalGetElementsByTagName = document.getElementsByTagName
+            document.getElementsByTagName = (_tagName: string) =>
+                [{ appendChild: (script: HTMLScriptElement) => scripts.push(script) }] as any
+            const globals = window as any
+            const config = { tex: { packages: ["base"] } }
+            const mathJax = { startup: { promise: Promise.resolve() } }
+            const onStartup = jest.fn()
+            // runs a script, which replaces the MathJax of the page with its own like MathJax does
+            const run = (script: HTMLScriptElement, ownMathJax: any) => {
+                globals.MathJax = ownMathJax
+                script.dispatchEvent(new Event("load"))
+            }
+            try {
+                render(
+                    <MathJaxContext
+                        src={[
+                            "https://first.example/mathjax.js",
+                            "https://second.example/mathjax.js",
+                            "https://third.example/mathjax.js"
+                        ]}
+                        timeout={200}
+                        config={config}
+                        onStartup={onStartup}
+                    />
+                )
+                await waitFor(() => expect(scripts).toHaveLength(3), { interval: 1 })
+                expect(globals.MathJax).toBe(config)
+                run(scripts[0], { late: true })
+                expect(globals.MathJax).toBe(config)
+                run(scripts[2], mathJax)
+                await waitFor(() => expect(onStartup).toHaveBeenCalledWith(mathJax))
+                // a script which timed out may even run after another one has loaded
+                run(scripts[1], { late: true })
+                expect(globals.MathJax).toBe(mathJax)
+                expect(onStartup).toHaveBeenCalledTimes(1)
+                res()
+            }
+            catch(e) {
+                rej(e)
+            }
+            finally {
+                document.getElementsByTagName = originalGetElementsByTagName
+                delete globals.MathJax
+            }
+        })
+    })
+}, 15000)
+
+it("reports loading to the onMetrics callbacks of the context and of nested contexts", () => {
+    return new Promise<void>((res, rej) => {
+        jest.isolateModules(async () => {
+            const { default: MathJaxContext } = require("./MathJaxContext")
+            const mathJax = { startup: { promise: Promise.resolve() } }
+            const onMetrics = jest.fn()
+            const onNestedMetrics = jest.fn()
+            try {
+                const start = performance.now()
+                render(
+                    <MathJaxContext loader={() => Promise.resolve(mathJax)} onMetrics={onMetrics}>
+                        <MathJaxContext onMetrics={onNestedMetrics} />
+                    </MathJaxContext>
+                )
+                // the listeners are not called while the context renders
+                expect(onMetrics).not.toHaveBeenCalled()
+                await new Promise((resolve) => setTimeout(resolve, 0))
+                const [loadStart, loadEnd] = onMetrics.mock.calls.map(([event]) => event)
+                expect(loadStart.type).toBe("loadStart")
+                expect(loadStart.time).toBeGreaterThanOrEqual(start)
+                expect(loadEnd.type).toBe("loadEnd")
+                expect(loadEnd.time - loadEnd.duration).toBeCloseTo(loadStart.time)
+                expect(loadEnd.duration).toBeGreaterThanOrEqual(0)
+                expect(loadEnd.error).toBeUndefined()
+                expect(onNestedMetrics).toHaveBeenCalledWith(loadEnd)
+                res()
+            }
+            catch(e) {
+                rej(e)
+            }
+        })
+    })
+})
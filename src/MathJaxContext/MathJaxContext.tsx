@@ -1,6 +1,22 @@
-import React, { createContext, FC, ReactNode, useContext, useRef } from "react"
+import React, { createContext, FC, ReactNode, useContext, useEffect, useRef, useState } from "react"
 import type { MathJax2Config, MathJax2Object } from "../MathJax2"
 import type { MathJax3Config, MathJax3Object, OptionList } from "../MathJax3"
+import { ConversionCache, createConversionCache } from "./ConversionCache"
+import { createEquationNumbering, EquationNumbering } from "./EquationNumbering"
+import { createIsolatedMathJax } from "./MathJaxDocument"
+import type { MathJaxOutputNode } from "./MathJaxConversion"
+import { createMathJaxError, MathJaxError } from "./MathJaxError"
+import { createMathJaxMetrics, MathJaxMetrics, MathJaxMetricsEvent, MathJaxMetricsListener } from "./MathJaxMetrics"
+import { isSameConfig, reconfigureMathJax } from "./MathJaxReconfiguration"
+import { MathDiagnostic, MathValidationOptions, validateMath } from "./MathValidation"
+import { createTypesettingScheduler, TypesettingScheduler } from "./TypesettingScheduler"
+
+export { MathJaxError, MathJaxErrorPhase } from "./MathJaxError"
+export { ConversionCacheStats } from "./ConversionCache"
+export { EquationLabel } from "./EquationNumbering"
+export { MathJaxOutputNode } from "./MathJaxConversion"
+export { MathJaxMetricsEvent, MathJaxMetricsListener, MathJaxStats } from "./MathJaxMetrics"
+export { MathDiagnostic, MathInputFormat, MathValidationOptions } from "./MathValidation"
 
 export type TypesettingFunction = "tex2chtml"
     | "tex2chtmlPromise"
@@ -21,6 +37,13 @@ export type TypesettingFunction = "tex2chtml"
     | "asciimath2mml"
     | "asciimath2mmlPromise"
 
+export interface MathJaxLazyOptions {
+    // margin around the viewport within which content is typeset, in the same format as CSS margins
+    rootMargin?: string
+    // space reserved for the content until it has been typeset for the first time so that the page doesn't jump
+    placeholder?: { width?: number | string; height?: number | string }
+}
+
 export interface MathJaxOverrideableProps {
     hideUntilTypeset?: "first" | "every"
     typesettingOptions?: {
@@ -28,20 +51,76 @@ export interface MathJaxOverrideableProps {
         options?: Omit<OptionList, "display">
     }
     renderMode?: "pre" | "post"
+    onError?: (error: MathJaxError) => void
+    lazy?: boolean | MathJaxLazyOptions
+    reactOutput?: boolean
+    accessibility?: boolean
+    // suspends rendering until MathJax has loaded and, in render mode "pre", until the math has been converted
+    suspense?: boolean
+}
+
+/**
+ * Typesets math synchronously outside of the browser during server side rendering. Created with
+ * createServerRenderer from the MathJaxServer entry point so that mathjax-full is not bundled with client code.
+ */
+export interface MathJaxServerRenderer {
+    // converts a single math string with the given typesetting function and returns the resulting markup
+    convert: (text: string, fn: TypesettingFunction, options: OptionList) => string
+    // converts a single math string like convert but returns the output as plain data which React can render
+    convertToTree: (text: string, fn: TypesettingFunction, options: OptionList) => MathJaxOutputNode
+    // typesets all math, with delimiters, found in the given markup and returns the resulting markup
+    typeset: (html: string) => string
+    // returns the CSS needed by all output produced so far, to be included in the head of the document
+    styleSheet: () => string
+}
+
+/**
+ * Builds MathJax 3 in the page from its configuration instead of downloading it from a script. Created with
+ * createLocalLoader from the MathJaxLocal entry point so that mathjax-full is only bundled when it is used.
+ */
+export type MathJaxLocalLoader = (config: MathJax3Config) => Promise<MathJax3Object>
+
+export interface MathJaxSsrState {
+    // only set on the server, where math is typeset during rendering
+    renderer?: MathJaxServerRenderer
+    // true on the client until the MathJaxContext has finished its first render (hydration)
+    hydrating: boolean
 }
 
 export type MathJaxSubscriberProps = ({
     version: 2; promise: Promise<MathJax2Object>
 } | {
     version: 3; promise: Promise<MathJax3Object>
-}) & MathJaxOverrideableProps
+}) & MathJaxOverrideableProps & {
+    ssr?: MathJaxSsrState
+    scheduler?: TypesettingScheduler
+    cache?: ConversionCache
+    equations?: EquationNumbering
+    metrics?: MathJaxMetrics
+}
+
+// a source of MathJax and the integrity hash of its script
+interface ScriptSource {
+    source: string
+    integrity?: string
+}
 
 export const MathJaxBaseContext = createContext<MathJaxSubscriberProps | undefined>(undefined)
 
 interface MathJaxContextStaticProps extends MathJaxOverrideableProps {
-    src?: string
+    src?: string | string[]
+    timeout?: number
+    retries?: number
+    retryDelay?: number
+    nonce?: string
+    // one hash for every source or one for each source, in the order of src
+    integrity?: string | string[]
+    crossOrigin?: "anonymous" | "use-credentials"
     onLoad?: () => void
-    onError?: (error: any) => void
+    ssr?: boolean | MathJaxServerRenderer
+    cacheSize?: number
+    cacheInvalidationKey?: unknown
+    onMetrics?: MathJaxMetricsListener
     children?: ReactNode
 }
 
@@ -49,19 +128,79 @@ export type MathJaxContextProps = ({
     config?: MathJax2Config
     version: 2
     onStartup?: (mathJax: MathJax2Object) => void
+    loader?: undefined
+    isolated?: undefined
+    equationNumbering?: undefined
 } | {
     config?: MathJax3Config
     version?: 3
     onStartup?: (mathJax: MathJax3Object) => void
+    loader?: MathJaxLocalLoader
+    isolated?: boolean
+    equationNumbering?: boolean
 }) & MathJaxContextStaticProps
 
 /* below is not the same URL as presented on https://www.mathjax.org/#gettingstarted because that config is not
 even listed in the docs. The below config is the same config as the default CDN sends for the non-existing TeX-AMS-MML_CHTML
 parameter */
 const DEFAULT_V2_SRC = "https://cdnjs.cloudflare.com/ajax/libs/mathjax/2.7.9/MathJax.js?config=TeX-MML-AM_CHTML"
-const DEFAULT_V3_SRC = "https://cdnjs.cloudflare.com/ajax/libs/mathjax/3.2.0/es5/tex-mml-chtml.js"
-let v2Promise: Promise<MathJax2Object>
-let v3Promise: Promise<MathJax3Object>
+// the directory of the components of MathJax 3 on the CDN
+export const V3_COMPONENTS_URL = "https://cdnjs.cloudflare.com/ajax/libs/mathjax/3.2.0/es5"
+const DEFAULT_V3_SRC = `${V3_COMPONENTS_URL}/tex-mml-chtml.js`
+const DEFAULT_TIMEOUT = 30000
+const DEFAULT_RETRY_DELAY = 1000
+const DEFAULT_CACHE_SIZE = 500
+let v2Promise: Promise<MathJax2Object> | undefined
+let v3Promise: Promise<MathJax3Object> | undefined
+// the configuration MathJax 3 was loaded or last reconfigured with
+let v3Config: MathJax3Config | undefined
+/* the top-level context which reconfigures MathJax 3 when its configuration changes, which is the first one to mount,
+so that other top-level contexts with other configurations don't reconfigure MathJax back and forth */
+let v3Owner: object | undefined
+// promises of versions which failed to load, which are discarded by resetFailedLoad
+const failedLoads: Promise<MathJax2Object | MathJax3Object>[] = []
+
+/**
+ * Discards a failed attempt to load MathJax so that the next MathJaxContext to mount loads MathJax again. Contexts
+ * which are already mounted keep the failed attempt, so they have to be mounted again (e.g. by resetting an error
+ * boundary or changing their key) after this has been called. Returns whether there was a failed attempt to discard.
+ */
+export const resetFailedLoad = () => {
+    if(failedLoads.length === 0) return false
+    if(failedLoads.indexOf(v2Promise!) !== -1) v2Promise = undefined
+    if(failedLoads.indexOf(v3Promise!) !== -1) {
+        v3Promise = undefined
+        v3Config = undefined
+    }
+    failedLoads.length = 0
+    return true
+}
+
+/**
+ * Checks math with MathJax 3 as loaded by the top-level MathJaxContexts of the page, such as outside of components,
+ * and resolves with the problems found in it, which are none if the math is valid. Rejects with a MathJaxError if no
+ * MathJaxContext has loaded MathJax 3.
+ */
+export const validate = (text: string, options?: MathValidationOptions): Promise<MathDiagnostic[]> => {
+    if(typeof v3Promise === "undefined") {
+        const notLoaded = Error("MathJax 3 has not been loaded by a MathJaxContext")
+        return Promise.reject(createMathJaxError("conversion", notLoaded, text))
+    }
+    return v3Promise
+        .then((mathJax) => mathJax.startup.promise.then(() => validateMath(mathJax, text, options)))
+        .catch((err) => Promise.reject(createMathJaxError("conversion", err, text)))
+}
+
+/**
+ * Discards MathJax, whether it has loaded or not, so that the next MathJaxContext to mount loads it again with any
+ * version. Only meant for tests, in which contexts must be unmounted before this is called.
+ */
+export const discardLoadedMathJax = () => {
+    v2Promise = undefined
+    v3Promise = undefined
+    v3Config = undefined
+    failedLoads.length = 0
+}
 
 const MathJaxContext: FC<MathJaxContextProps> = ({
     config,
@@ -69,13 +208,33 @@ const MathJaxContext: FC<MathJaxContextProps> = ({
     src = version === 2 ? DEFAULT_V2_SRC : DEFAULT_V3_SRC,
     onStartup,
     onLoad,
+    loader,
+    isolated = false,
+    equationNumbering = false,
+    timeout = DEFAULT_TIMEOUT,
+    retries = 0,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    nonce,
+    integrity,
+    crossOrigin,
     onError,
     typesettingOptions,
     renderMode = "post",
     hideUntilTypeset,
+    lazy,
+    reactOutput,
+    accessibility,
+    suspense,
+    ssr,
+    cacheSize = DEFAULT_CACHE_SIZE,
+    cacheInvalidationKey,
+    onMetrics,
     children
 }) => {
     const previousContext = useContext(MathJaxBaseContext)
+    // failure to load MathJax when no onError callback is given, thrown when rendering so that error boundaries catch it
+    const [loadError, setLoadError] = useState<MathJaxError | null>(null)
+    if(loadError !== null) throw Error(loadError.message)
     if(typeof previousContext?.version !== "undefined" && previousContext?.version !== version)
         throw Error(
             "Cannot nest MathJaxContexts with different versions. MathJaxContexts should not be nested at all but if " +
@@ -89,7 +248,18 @@ const MathJaxContext: FC<MathJaxContextProps> = ({
             "unmounted MathJaxContexts with different versions. Please stick with one version of MathJax in your app. " +
             "File an issue in the project Github page if you need this feature."
         )
-    const mjContext = useRef(previousContext)
+    if(isolated && version === 2)
+        throw Error("Isolated MathJax documents are only available with MathJax 3, and version 2 is currently in use")
+    if(equationNumbering && version === 2)
+        throw Error("Equation numbering is only available with MathJax 3, and version 2 is currently in use")
+    // an isolated context provides a MathJax document of its own instead of the one of the closest context
+    const mjContext = useRef(isolated ? undefined : previousContext)
+    // the MathJax an isolated document is created from, which is the one of the closest context if any
+    const isolatedBase = useRef<Promise<MathJax3Object>>()
+    // the configuration of the isolated document
+    const isolatedConfig = useRef<MathJax3Config>((config || {}) as MathJax3Config)
+    // identifies this context as the owner of MathJax 3
+    const owner = useRef({})
     const initVersion = useRef<2 | 3 | null>(previousContext?.version || null)
     if(initVersion.current === null) initVersion.current = version
     else if(initVersion.current !== version)
@@ -98,54 +268,147 @@ const MathJaxContext: FC<MathJaxContextProps> = ({
             "new version when this must happen."
         )
 
-    const usedSrc = src || (version === 2 ? DEFAULT_V2_SRC : DEFAULT_V3_SRC)
+    // the latest onMetrics callback, which is also called with the events emitted while the context is created
+    const reportMetrics = useRef<MathJaxMetricsListener>(() => undefined)
+    reportMetrics.current = (event: MathJaxMetricsEvent) => {
+        if(onMetrics) onMetrics(event)
+    }
+
+    // sources are tried in order until one of them loads, each with its own integrity hash if one is given per source
+    const integrityOf = (index: number) => Array.isArray(integrity) ? integrity[index] : integrity
+    const usedSrc: ScriptSource[] = (Array.isArray(src) ? src : [src])
+        .map((source, index) => ({ source, integrity: integrityOf(index) }))
+        .filter(({ source }) => !!source)
+    if(usedSrc.length === 0)
+        usedSrc.push({ source: version === 2 ? DEFAULT_V2_SRC : DEFAULT_V3_SRC, integrity: integrityOf(0) })
+
+    function onLoaded<T>(mathJax: T, res: (mathJax: T) => void, rej: (error: MathJaxError) => void) {
+        try {
+            if(onStartup) onStartup(mathJax as any)
+        } catch(err) {
+            rej(createMathJaxError("startup", err))
+            return
+        }
+        res(mathJax)
+        if(onLoad) onLoad()
+    }
 
-    function scriptInjector<T>(res: (mathJax: T) => void, rej: (error: any) => void) {
+    // the MathJax of the page, the config while a script is loading and then the MathJax which has loaded
+    let pageMathJax: any
+
+    // resolves when the script has loaded and rejects when it fails to load or does not load within the timeout
+    const injectScript = ({ source, integrity: hash }: ScriptSource) => new Promise<void>((res, rej) => {
         if(config) (window as any).MathJax = config
+        pageMathJax = (window as any).MathJax
         const script = document.createElement("script")
         script.type = "text/javascript"
-        script.src = usedSrc
+        script.src = source
         script.defer = true
+        if(nonce) script.nonce = nonce
+        if(hash) script.integrity = hash
+        // subresource integrity requires cross origin requests to be made in CORS mode
+        if(crossOrigin || hash) script.crossOrigin = crossOrigin || "anonymous"
 
+        let settled = false
+        const timer = timeout > 0
+            ? window.setTimeout(() => fail(Error(`Timed out after ${timeout} ms`)), timeout)
+            : undefined
+        const fail = (cause: any) => {
+            if(settled) return
+            settled = true
+            window.clearTimeout(timer)
+            // failed scripts are removed so that only the script which loaded remains in the page
+            if(script.parentNode) script.parentNode.removeChild(script)
+            rej(cause)
+        }
         script.addEventListener("load", () => {
-            const mathJax = (window as any).MathJax
-            if(onStartup) onStartup(mathJax)
-            res(mathJax)
-            if(onLoad) onLoad()
+            /* a script which timed out may still run once it has downloaded, which replaces the MathJax of the page
+            with its own, so the MathJax of the page is put back */
+            if(settled) {
+                (window as any).MathJax = pageMathJax
+                return
+            }
+            settled = true
+            window.clearTimeout(timer)
+            pageMathJax = (window as any).MathJax
+            res()
         })
-        script.addEventListener("error", (e) => rej(e))
+        script.addEventListener("error", fail)
 
         document.getElementsByTagName("head")[0].appendChild(script)
+    })
+
+    function scriptInjector<T>(res: (mathJax: T) => void, rej: (error: MathJaxError) => void) {
+        // tries the sources in order, and all of them again for every retry
+        const attempt = (retry: number, index: number) => injectScript(usedSrc[index]).then(
+            () => onLoaded((window as any).MathJax, res, rej),
+            (cause) => {
+                if(index + 1 < usedSrc.length) attempt(retry, index + 1)
+                else if(retry < retries) setTimeout(() => attempt(retry + 1, 0), retryDelay)
+                else rej({
+                    phase: "load",
+                    message: `Failed to download MathJax version ${version} from ` +
+                        usedSrc.map(({ source }) => `'${source}'`).join(", ") +
+                        (retries > 0 ? ` after ${retries + 1} attempts` : ""),
+                    cause
+                })
+            }
+        )
+        attempt(0, 0)
+    }
+
+    // builds MathJax 3 with the loader instead of downloading it, no script is added to the page
+    function localInjector(res: (mathJax: MathJax3Object) => void, rej: (error: MathJaxError) => void) {
+        loader!((config || {}) as MathJax3Config).then(
+            (mathJax) => onLoaded(mathJax, res, rej),
+            (err) => rej(createMathJaxError("startup", err))
+        )
+    }
+
+    // the failed load is kept until it is reset with resetFailedLoad
+    const onLoadFailed = (promise: Promise<MathJax2Object | MathJax3Object>) => (e: any) => {
+        failedLoads.push(promise)
+        const error = createMathJaxError("load", e)
+        if(onError) onError(error)
+        else setLoadError(error)
     }
 
     if(typeof mjContext.current === "undefined") {
+        const metrics = createMathJaxMetrics()
+        metrics.subscribe((event) => reportMetrics.current(event))
+        const loadEnded = typeof window !== "undefined" ? metrics.loadStarted() : undefined
         const baseContext = {
             typesettingOptions,
             renderMode,
-            hideUntilTypeset
+            hideUntilTypeset,
+            onError,
+            lazy,
+            reactOutput,
+            accessibility,
+            suspense,
+            ssr: ssr
+                ? typeof window === "undefined"
+                    ? { renderer: typeof ssr === "boolean" ? undefined : ssr, hydrating: false }
+                    : { hydrating: true }
+                : previousContext?.ssr
         }
         if(version === 2) {
             if(typeof v2Promise === "undefined") {
                 if(typeof window !== "undefined") {
                     v2Promise = new Promise<MathJax2Object>(scriptInjector)
-                    v2Promise.catch((e) => {
-                        if(onError) onError(e)
-                        else throw Error(`Failed to download MathJax version 2 from '${usedSrc}' due to: ${e}`)
-                    })
+                    v2Promise.catch(onLoadFailed(v2Promise))
                 } else {
                     // for server side rendering
                     v2Promise = Promise.reject()
                     v2Promise.catch((_) => undefined)
                 }
             }
-        } else {
+        } else if(typeof previousContext === "undefined") {
             if(typeof v3Promise === "undefined") {
                 if(typeof window !== "undefined") {
-                    v3Promise = new Promise<MathJax3Object>(scriptInjector)
-                    v3Promise.catch((e) => {
-                        if(onError) onError(e)
-                        else throw Error(`Failed to download MathJax version 3 from '${usedSrc}' due to: ${e}`)
-                    })
+                    v3Promise = new Promise<MathJax3Object>(loader ? localInjector : scriptInjector)
+                    v3Config = (config || {}) as MathJax3Config
+                    v3Promise.catch(onLoadFailed(v3Promise))
                 } else {
                     // for server side rendering
                     v3Promise = Promise.reject()
@@ -153,12 +416,97 @@ const MathJaxContext: FC<MathJaxContextProps> = ({
                 }
             }
         }
+        const mjPromise = version === 2
+            ? { version: 2 as const, promise: v2Promise! }
+            : { version: 3 as const, promise: previousContext?.version === 3 ? previousContext.promise : v3Promise! }
+        if(isolated && mjPromise.version === 3) {
+            isolatedBase.current = mjPromise.promise
+            mjPromise.promise = mjPromise.promise
+                .then((mathJax) => createIsolatedMathJax(mathJax, (config || {}) as MathJax3Config))
+                .catch((err) => Promise.reject(createMathJaxError("startup", err)))
+            // errors are reported by the MathJax components which use the document
+            mjPromise.promise.catch((_) => undefined)
+        }
+        // loading is timed until MathJax 3 has finished its startup
+        if(loadEnded) {
+            const loaded: Promise<unknown> = mjPromise.version === 3
+                ? mjPromise.promise.then((mathJax) => mathJax.startup.promise
+                    .catch((err) => Promise.reject(createMathJaxError("startup", err)))
+                )
+                : mjPromise.promise
+            loaded.then(() => loadEnded(), (err) => loadEnded(createMathJaxError("load", err)))
+        }
+        const equations = equationNumbering ? createEquationNumbering(() => scheduler.renumber()) : undefined
+        const scheduler = createTypesettingScheduler(mjPromise, equations)
         mjContext.current = {
             ...baseContext,
-            ...(version === 2 ? { version: 2, promise: v2Promise } : { version: 3, promise: v3Promise })
+            ...mjPromise,
+            scheduler,
+            cache: cacheSize > 0 ? createConversionCache(cacheSize, metrics.cacheLookedUp) : undefined,
+            equations,
+            metrics
         }
     }
 
+    // a nested context which shares the MathJax document of the closest context reports the events of that context
+    useEffect(() => {
+        const metrics = mjContext.current?.metrics
+        if(mjContext.current !== previousContext || typeof metrics === "undefined") return
+        return metrics.subscribe((event) => reportMetrics.current(event))
+    }, [])
+
+    // MathJax components mounted after the first render of the context are not hydrated from server side rendering
+    useEffect(() => {
+        if(mjContext.current?.ssr) mjContext.current.ssr.hydrating = false
+    }, [])
+
+    // a top-level context owns MathJax 3 unless another one already does, until it unmounts
+    useEffect(() => {
+        if(version !== 3 || isolated || typeof previousContext !== "undefined") return
+        if(typeof v3Owner === "undefined") v3Owner = owner.current
+        return () => {
+            if(v3Owner === owner.current) v3Owner = undefined
+        }
+    }, [])
+
+    /* changes to the configuration of MathJax 3 are applied by reconfiguring MathJax, which only the context owning it
+    does, or only the document of an isolated context; nested contexts don't configure MathJax */
+    useEffect(() => {
+        const usedConfig = (config || {}) as MathJax3Config
+        const current = mjContext.current
+        if(current?.version !== 3 || typeof window === "undefined") return
+        if(isolated) {
+            if(isSameConfig(usedConfig, isolatedConfig.current)) return
+            isolatedConfig.current = usedConfig
+        } else {
+            if(v3Owner !== owner.current || isSameConfig(usedConfig, v3Config)) return
+            v3Config = usedConfig
+        }
+        current.cache?.clear()
+        const reconfiguration = isolated
+            ? Promise.all([isolatedBase.current!, current.promise]).then(([base, mathJax]) =>
+                reconfigureMathJax(mathJax, usedConfig, (changed) => createIsolatedMathJax(base, changed))
+            )
+            : current.promise.then((mathJax) => reconfigureMathJax(mathJax, usedConfig, loader))
+        reconfiguration
+            .catch((err) => {
+                // errors from loading MathJax have already been reported
+                if(err?.phase === "load") return
+                const error = createMathJaxError("startup", err)
+                if(onError) onError(error)
+                else setLoadError(error)
+            })
+    }, [config])
+
+    // cached conversions are discarded when the invalidation key changes, e.g. after the configuration has changed
+    const lastCacheInvalidationKey = useRef(cacheInvalidationKey)
+    useEffect(() => {
+        if(lastCacheInvalidationKey.current !== cacheInvalidationKey) {
+            lastCacheInvalidationKey.current = cacheInvalidationKey
+            mjContext.current?.cache?.clear()
+        }
+    }, [cacheInvalidationKey])
+
     return <MathJaxBaseContext.Provider value={mjContext.current}>{children}</MathJaxBaseContext.Provider>
 }
 
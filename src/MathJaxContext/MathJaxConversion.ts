@@ -0,0 +1,99 @@
+import type { MathJax3Object, OptionList } from "../MathJax3"
+import type { ConversionCache } from "./ConversionCache"
+import type { TypesettingFunction } from "./MathJaxContext"
+import { createMathJaxError, MathJaxErrorPhase } from "./MathJaxError"
+
+/**
+ * Converts a math string with one of the functions MathJax 3 generates from its configuration (render mode "pre"),
+ * after which the MathJax document is updated so that the styles needed by the output are added to the page. Rejects
+ * with a MathJaxError if MathJax could not be loaded or the conversion failed.
+ */
+export const convertMath = (
+    mathJaxPromise: Promise<MathJax3Object>,
+    text: string,
+    fn: TypesettingFunction,
+    options: OptionList
+): Promise<HTMLElement> => {
+    let phase: MathJaxErrorPhase = "load"
+    return mathJaxPromise
+        .then((mathJax) => {
+            phase = "startup"
+            return mathJax.startup.promise
+                .then(() => {
+                    phase = "conversion"
+                    return mathJax[fn](text, options)
+                })
+                .then((output: HTMLElement) => {
+                    mathJax.startup.document.clear()
+                    mathJax.startup.document.updateDocument()
+                    return output
+                })
+        })
+        .catch((err) => Promise.reject(createMathJaxError(phase, err, text)))
+}
+
+/**
+ * Converts a math string like convertMath but resolves with the resulting markup, which is cached in the given cache.
+ */
+export const convertMathToMarkup = (
+    mathJaxPromise: Promise<MathJax3Object>,
+    text: string,
+    fn: TypesettingFunction,
+    options: OptionList,
+    cache?: ConversionCache
+): Promise<string> => {
+    // conversions to MathML result in a string rather than an element
+    const conversion = () => convertMath(mathJaxPromise, text, fn, options)
+        .then((output: HTMLElement | string) => typeof output === "string" ? output : output.outerHTML)
+    return cache ? cache.convert(JSON.stringify([fn, options, text]), conversion) : conversion()
+}
+
+/**
+ * Output of MathJax as plain data, either text or an element, so that it can be cached and rendered by React.
+ */
+export type MathJaxOutputNode = string | { tag: string; attributes: Record<string, string>; children: MathJaxOutputNode[] }
+
+const toOutputNode = (adaptor: any, node: any): MathJaxOutputNode | null => {
+    const kind: string = adaptor.kind(node)
+    if(kind === "#text") return adaptor.value(node)
+    // comments are left out
+    if(kind.charAt(0) === "#") return null
+    const attributes: Record<string, string> = {}
+    adaptor.allAttributes(node).forEach(({ name, value }: { name: string; value: string }) => {
+        attributes[name] = value
+    })
+    const children = adaptor.childNodes(node)
+        .map((child: any) => toOutputNode(adaptor, child))
+        .filter((child: MathJaxOutputNode | null) => child !== null)
+    // elements in the page keep the case of SVG tags such as foreignObject in their local name
+    return { tag: node.localName ?? kind, attributes, children }
+}
+
+/**
+ * Turns output of MathJax into plain data by means of the DOM adaptor of the MathJax document, which is the DOM of the
+ * page in the browser and the lite DOM of mathjax-full on the server. MathML output given as markup is parsed first.
+ */
+export const toOutputTree = (adaptor: any, output: any): MathJaxOutputNode => toOutputNode(
+    adaptor,
+    typeof output === "string" ? adaptor.firstChild(adaptor.body(adaptor.parse(output, "text/html"))) : output
+)!
+
+/**
+ * Converts a math string like convertMath but resolves with the output as plain data, which is cached in the given
+ * cache.
+ */
+export const convertMathToTree = (
+    mathJaxPromise: Promise<MathJax3Object>,
+    text: string,
+    fn: TypesettingFunction,
+    options: OptionList,
+    cache?: ConversionCache
+): Promise<MathJaxOutputNode> => {
+    // the cache holds strings, so the output is cached as JSON
+    const conversion = () => convertMath(mathJaxPromise, text, fn, options)
+        .then((output) => mathJaxPromise.then((mathJax) =>
+            JSON.stringify(toOutputTree(mathJax.startup.document.adaptor, output))
+        ))
+    const key = JSON.stringify(["tree", fn, options, text])
+    return (cache ? cache.convert(key, conversion) : conversion()).then((tree) => JSON.parse(tree))
+}
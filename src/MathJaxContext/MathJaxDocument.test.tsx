@@ -0,0 +1,23 @@
+// @ts-ignore
+import React from "react"
+import { render, waitFor } from "@testing-library/react"
+import { MathJax, MathJaxContext } from "../index"
+import { createLocalLoader } from "../MathJaxLocal"
+
+it("typesets math in an isolated context with a document of its own", async () => {
+    const onTypeset = jest.fn()
+    const { container } = render(
+        <MathJaxContext loader={createLocalLoader({ output: "chtml" })} config={{ startup: { typeset: false } }}>
+            <MathJax id="outer" onTypeset={onTypeset}>{"\\(\\RR\\)"}</MathJax>
+            <MathJaxContext isolated config={{ tex: { macros: { RR: "\\mathbb{R}" } } }}>
+                <MathJax id="inner" onTypeset={onTypeset}>{"\\(\\RR\\)"}</MathJax>
+            </MathJaxContext>
+        </MathJaxContext>
+    )
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(2), { timeout: 10000 })
+    expect(container.querySelector("#inner mjx-c.mjx-c211D")).not.toBeNull()
+    // the macro is only defined in the isolated document
+    expect(container.querySelector("#outer mjx-c.mjx-c211D")).toBeNull()
+    expect(document.getElementById("MJX-CHTML-styles")).not.toBeNull()
+    expect(document.getElementById("MJX-CHTML-styles-1")).not.toBeNull()
+}, 15000)
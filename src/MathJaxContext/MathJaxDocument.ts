@@ -0,0 +1,117 @@
+import type { MathJax3Config, MathJax3Object, OptionList } from "../MathJax3"
+import { loadComponents, PROCESSOR_SECTIONS } from "./MathJaxReconfiguration"
+
+// sections of the configuration for the input and output processors of MathJax, by the names of the processors
+const CONFIG_SECTIONS: Record<string, string> = {
+    TeX: "tex",
+    MathML: "mml",
+    AsciiMath: "asciimath",
+    CHTML: "chtml",
+    SVG: "svg"
+}
+
+// number of isolated documents created, used to give the stylesheet of every document a unique id
+let isolatedDocuments = 0
+
+/**
+ * Creates an object with the same functions as the ones MathJax 3 creates at startup when loaded from a script (see
+ * makeMethods in mathjax-full/js/components/startup) but for the given document. The modules of MathJax (the "_"
+ * property of the MathJax object) must at least contain mathjax, core.MathItem and core.MmlTree.SerializedMmlVisitor.
+ * The startup promise of the object must be set by the caller.
+ */
+export const createMathJaxObject = (
+    modules: any,
+    config: MathJax3Config,
+    mathDocument: any,
+    startup: OptionList
+): any => {
+    const { mathjax } = modules.mathjax
+    const { STATE } = modules.core.MathItem
+    const visitor = new modules.core.MmlTree.SerializedMmlVisitor.SerializedMmlVisitor()
+    const toMML = (node: any) => visitor.visitTree(node)
+    const inputJax: any[] = mathDocument.inputJax
+    const outputJax = mathDocument.outputJax
+    const output = outputJax.name.toLowerCase()
+
+    const mathJax: any = {
+        version: mathjax.version,
+        _: modules,
+        config,
+        startup: { ...startup, input: inputJax, output: outputJax, document: mathDocument, toMML },
+        typeset: (elements: any[] | null = null) => {
+            mathDocument.options.elements = elements
+            mathDocument.reset()
+            mathDocument.render()
+        },
+        typesetPromise: (elements: any[] | null = null) => {
+            mathDocument.options.elements = elements
+            mathDocument.reset()
+            return mathjax.handleRetriesFor(() => mathDocument.render())
+        },
+        typesetClear: (elements: any[] | null = null) => {
+            if(elements) mathDocument.clearMathItemsWithin(elements)
+            else mathDocument.clear()
+        },
+        [`${output}Stylesheet`]: () => outputJax.styleSheet(mathDocument),
+        getMetricsFor: (node: HTMLElement, display: boolean) => outputJax.getMetricsFor(node, display)
+    }
+    inputJax.forEach((jax) => {
+        const name = jax.name.toLowerCase()
+        const convert = (math: string, options: OptionList = {}) =>
+            mathDocument.convert(math, { ...options, format: jax.name })
+        const convertToMml = (math: string, options: OptionList = {}) =>
+            toMML(mathDocument.convert(math, { ...options, format: jax.name, end: STATE.CONVERT }))
+        mathJax[`${name}2${output}`] = convert
+        mathJax[`${name}2${output}Promise`] = (math: string, options?: OptionList) =>
+            mathjax.handleRetriesFor(() => convert(math, options))
+        mathJax[`${name}2mml`] = convertToMml
+        mathJax[`${name}2mmlPromise`] = (math: string, options?: OptionList) =>
+            mathjax.handleRetriesFor(() => convertToMml(math, options))
+        mathJax[`${name}Reset`] = (...args: any[]) => jax.reset(...args)
+    })
+    return mathJax
+}
+
+/**
+ * Creates a MathJax 3 object with a document of its own, with new input and output processors configured by the
+ * configuration of the given MathJax object merged with the given configuration, so that macros and other options
+ * don't affect the rest of the page. The output processor can be changed with startup.output in the configuration.
+ */
+export const createIsolatedMathJax = (mathJax: any, config: MathJax3Config): Promise<MathJax3Object> =>
+    mathJax.startup.promise
+        .then(() => loadComponents(mathJax, config))
+        .then(() => {
+            const { adaptor, constructors, document: baseDocument } = mathJax.startup
+            // options of the processors are merged into the ones of the given MathJax object
+            const isolatedConfig: OptionList = { ...mathJax.config, ...config }
+            PROCESSOR_SECTIONS.forEach((section) => {
+                isolatedConfig[section] = { ...(mathJax.config[section] || {}), ...((config as OptionList)[section] || {}) }
+            })
+            const inputJax = baseDocument.inputJax.map((jax: any) =>
+                new jax.constructor(isolatedConfig[CONFIG_SECTIONS[jax.name]])
+            )
+            const baseOutput = CONFIG_SECTIONS[baseDocument.outputJax.name]
+            const output: string = config.startup?.output || baseOutput
+            const OutputJax = output === baseOutput ? baseDocument.outputJax.constructor : constructors?.[output]
+            if(!OutputJax) throw Error(`Output '${output}' is not available for an isolated MathJax document`)
+            const outputJax = new OutputJax(isolatedConfig[output])
+            const documentOptions = { ...isolatedConfig.options, InputJax: inputJax, OutputJax: outputJax }
+            // the handler of MathJax creates documents with the same extensions, such as semantic enrichment
+            const { handler } = mathJax.startup
+            const mathDocument = handler
+                ? handler.create(window.document, documentOptions)
+                : mathJax._.mathjax.mathjax.document(window.document, documentOptions)
+            /* the stylesheet of the output processor has the same id as the ones of the other documents in the page,
+            which it would replace when added to the page by MathJax, so it is added with a unique id right away */
+            const styleSheet = outputJax.styleSheet(mathDocument)
+            adaptor.setAttribute(styleSheet, "id", `${adaptor.getAttribute(styleSheet, "id")}-${++isolatedDocuments}`)
+            adaptor.append(adaptor.head(window.document), styleSheet)
+            const isolated = createMathJaxObject(
+                mathJax._,
+                isolatedConfig,
+                mathDocument,
+                { adaptor, handler: mathJax.startup.handler, constructors }
+            )
+            isolated.startup.promise = Promise.resolve()
+            return isolated as MathJax3Object
+        })
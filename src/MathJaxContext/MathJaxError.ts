@@ -0,0 +1,29 @@
+export type MathJaxErrorPhase = "load" | "startup" | "conversion" | "typeset"
+
+export interface MathJaxError {
+    // the step in which the error occurred
+    phase: MathJaxErrorPhase
+    // the message from MathJax (or from the browser when MathJax could not be loaded)
+    message: string
+    // the math which could not be typeset, when known
+    text?: string
+    // the original error, if any
+    cause?: any
+}
+
+const isMathJaxError = (error: any): error is MathJaxError =>
+    typeof error?.phase === "string" && typeof error?.message === "string"
+
+/**
+ * Wraps anything thrown or rejected by MathJax in a MathJaxError. Errors which already are MathJaxErrors, such as
+ * errors from loading MathJax, keep their phase.
+ */
+export const createMathJaxError = (phase: MathJaxErrorPhase, error: any, text?: string): MathJaxError =>
+    isMathJaxError(error)
+        ? { ...error, text: text ?? error.text }
+        : {
+            phase,
+            message: typeof error?.message === "string" ? error.message : `${error}`,
+            text,
+            cause: error
+        }
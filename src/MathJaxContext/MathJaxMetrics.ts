@@ -0,0 +1,152 @@
+import type { MathJaxError } from "./MathJaxError"
+
+interface TypesetDetails {
+    // unique number of the MathJax component in the page
+    id: number
+    element: HTMLElement
+    renderMode: "pre" | "post"
+    // number of typesetting runs in the context which have started and not ended, including this one at the start
+    queueLength: number
+}
+
+/**
+ * Events of a MathJaxContext with timings in milliseconds, measured with performance.now() when available. Loading is
+ * timed from when the context mounts until MathJax is available to it, which is right away if it has already loaded.
+ */
+export type MathJaxMetricsEvent =
+    | { type: "loadStart"; time: number }
+    | { type: "loadEnd"; time: number; duration: number; error?: MathJaxError }
+    | ({ type: "typesetStart"; time: number } & TypesetDetails)
+    | ({
+        type: "typesetEnd"
+        time: number
+        duration: number
+        // whether newer content was requested before the run ended, in which case its output was discarded
+        superseded: boolean
+        error?: MathJaxError
+    } & TypesetDetails)
+    // a lookup in the conversion cache of the context by a conversion in render mode "pre"
+    | { type: "cacheLookup"; time: number; hit: boolean }
+
+export type MathJaxMetricsListener = (event: MathJaxMetricsEvent) => void
+
+export interface MathJaxStats {
+    // duration of loading MathJax, undefined until it has loaded
+    loadDuration?: number
+    // number of typesetting runs which have ended, including failed ones
+    typesets: number
+    failures: number
+    totalDuration: number
+    averageDuration: number
+    maxDuration: number
+    // number of typesetting runs which have started and not ended
+    queueLength: number
+    cacheHits: number
+    cacheMisses: number
+}
+
+// ends a typesetting run, with the error if it failed
+type TypesetEnd = (superseded: boolean, error?: MathJaxError) => void
+
+/**
+ * Collects the events of a MathJaxContext, passes them on to the listeners and keeps aggregate numbers of them.
+ */
+export interface MathJaxMetrics {
+    // starts timing loading and emits its start in a microtask, returns a function which ends it
+    loadStarted: () => (error?: MathJaxError) => void
+    // starts timing a typesetting run of a MathJax component, returns a function which ends it
+    typesetStarted: (id: number, element: HTMLElement, renderMode: "pre" | "post") => TypesetEnd
+    cacheLookedUp: (hit: boolean) => void
+    stats: () => MathJaxStats
+    // calls the listener with every event, returns a function which removes the listener
+    subscribe: (listener: MathJaxMetricsListener) => () => void
+}
+
+// the stats before anything has happened
+export const INITIAL_STATS: MathJaxStats = {
+    typesets: 0,
+    failures: 0,
+    totalDuration: 0,
+    averageDuration: 0,
+    maxDuration: 0,
+    queueLength: 0,
+    cacheHits: 0,
+    cacheMisses: 0
+}
+
+const now = () => typeof performance !== "undefined" ? performance.now() : Date.now()
+
+export const createMathJaxMetrics = (): MathJaxMetrics => {
+    const listeners: MathJaxMetricsListener[] = []
+    let stats = INITIAL_STATS
+
+    // the stats are replaced rather than changed so that they can be compared by reference
+    const emit = (event: MathJaxMetricsEvent, changes: Partial<MathJaxStats>) => {
+        stats = { ...stats, ...changes }
+        listeners.slice().forEach((listener) => listener(event))
+    }
+
+    /* loading is started while the context renders, so the start is emitted in a microtask rather than calling the
+    listeners during rendering; it keeps the time loading was started and still comes before the end */
+    const loadStarted = () => {
+        const start = now()
+        Promise.resolve().then(() => emit({ type: "loadStart", time: start }, {}))
+        return (error?: MathJaxError) => {
+            const time = now()
+            emit(
+                { type: "loadEnd", time, duration: time - start, ...(error ? { error } : {}) },
+                error ? {} : { loadDuration: time - start }
+            )
+        }
+    }
+
+    const typesetStarted = (id: number, element: HTMLElement, renderMode: "pre" | "post") => {
+        const start = now()
+        emit(
+            { type: "typesetStart", time: start, id, element, renderMode, queueLength: stats.queueLength + 1 },
+            { queueLength: stats.queueLength + 1 }
+        )
+        return (superseded: boolean, error?: MathJaxError) => {
+            const time = now()
+            const duration = time - start
+            const typesets = stats.typesets + 1
+            const queueLength = stats.queueLength - 1
+            emit(
+                {
+                    type: "typesetEnd",
+                    time,
+                    duration,
+                    superseded,
+                    ...(error ? { error } : {}),
+                    id,
+                    element,
+                    renderMode,
+                    queueLength
+                },
+                {
+                    typesets,
+                    failures: stats.failures + (error ? 1 : 0),
+                    totalDuration: stats.totalDuration + duration,
+                    averageDuration: (stats.totalDuration + duration) / typesets,
+                    maxDuration: Math.max(stats.maxDuration, duration),
+                    queueLength
+                }
+            )
+        }
+    }
+
+    const cacheLookedUp = (hit: boolean) => emit(
+        { type: "cacheLookup", time: now(), hit },
+        hit ? { cacheHits: stats.cacheHits + 1 } : { cacheMisses: stats.cacheMisses + 1 }
+    )
+
+    const subscribe = (listener: MathJaxMetricsListener) => {
+        listeners.push(listener)
+        return () => {
+            const index = listeners.indexOf(listener)
+            if(index !== -1) listeners.splice(index, 1)
+        }
+    }
+
+    return { loadStarted, typesetStarted, cacheLookedUp, stats: () => stats, subscribe }
+}
@@ -0,0 +1,69 @@
+// @ts-ignore
+import React from "react"
+import { render, waitFor } from "@testing-library/react"
+import { MathJax, MathJaxContext, MathJax3Config } from "../index"
+import { createLocalLoader } from "../MathJaxLocal"
+import { discardLoadedMathJax } from "./MathJaxContext"
+
+it("reconfigures MathJax when the configuration changes and typesets mounted components again", async () => {
+    const loader = createLocalLoader()
+    const onTypeset = jest.fn()
+    const getApp = (config: MathJax3Config) => (
+        <MathJaxContext loader={loader} config={config}>
+            <MathJax onTypeset={onTypeset} dynamic={false}>{"\\(\\RR\\)"}</MathJax>
+        </MathJaxContext>
+    )
+    const { container, rerender } = render(getApp({ startup: { typeset: false } }))
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(1), { timeout: 10000 })
+    expect(container.querySelector("mjx-container svg")).not.toBeNull()
+    rerender(getApp({ startup: { typeset: false, output: "chtml" }, tex: { macros: { RR: "\\mathbb{R}" } } }))
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(2), { timeout: 10000 })
+    expect(container.querySelector("mjx-container[jax='CHTML']")).not.toBeNull()
+    // the macro is defined by the new configuration
+    expect(container.querySelector("mjx-c.mjx-c211D")).not.toBeNull()
+}, 15000)
+
+it("only lets the context which owns MathJax reconfigure it and compares configurations by their contents", async () => {
+    discardLoadedMathJax()
+    const localLoader = createLocalLoader()
+    const loader = jest.fn((config: MathJax3Config) => localLoader(config))
+    const onTypeset = jest.fn()
+    const getApp = (count: number) => (
+        <div data-count={count}>
+            <MathJaxContext loader={loader} config={{ startup: { typeset: false }, tex: { packages: ["base"] } }}>
+                <MathJax onTypeset={onTypeset} dynamic={false}>{"\\(x\\)"}</MathJax>
+            </MathJaxContext>
+            <MathJaxContext loader={loader} config={{ startup: { typeset: false }, tex: { packages: ["base", "ams"] } }}>
+                <MathJax onTypeset={onTypeset} dynamic={false}>{"\\(y\\)"}</MathJax>
+            </MathJaxContext>
+        </div>
+    )
+    const { rerender } = render(getApp(0))
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(2), { timeout: 10000 })
+    for(let count = 1; count <= 3; count++) rerender(getApp(count))
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(loader).toHaveBeenCalledTimes(1)
+    expect(onTypeset).toHaveBeenCalledTimes(2)
+}, 15000)
+
+it("only typesets the components using an isolated document again when it is reconfigured", async () => {
+    discardLoadedMathJax()
+    const loader = createLocalLoader()
+    const onTypeset = jest.fn()
+    const onIsolatedTypeset = jest.fn()
+    const getApp = (macros: Record<string, string>) => (
+        <MathJaxContext loader={loader} config={{ startup: { typeset: false } }}>
+            <MathJax onTypeset={onTypeset} dynamic={false}>{"\\(x\\)"}</MathJax>
+            <MathJaxContext isolated config={{ tex: { macros } }}>
+                <MathJax onTypeset={onIsolatedTypeset} dynamic={false}>{"\\(\\RR\\)"}</MathJax>
+            </MathJaxContext>
+        </MathJaxContext>
+    )
+    const { container, rerender } = render(getApp({}))
+    await waitFor(() => expect(onIsolatedTypeset).toHaveBeenCalledTimes(1), { timeout: 10000 })
+    await waitFor(() => expect(onTypeset).toHaveBeenCalledTimes(1))
+    rerender(getApp({ RR: "\\mathbb{R}" }))
+    await waitFor(() => expect(onIsolatedTypeset).toHaveBeenCalledTimes(2), { timeout: 10000 })
+    expect(container.querySelector("[data-mjx-error]")).toBeNull()
+    expect(onTypeset).toHaveBeenCalledTimes(1)
+}, 15000)
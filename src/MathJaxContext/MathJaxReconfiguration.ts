@@ -0,0 +1,101 @@
+import type { MathJax3Config, MathJax3Object, OptionList } from "../MathJax3"
+import type { MathJaxLocalLoader } from "./MathJaxContext"
+
+type ReconfigurationListener = () => void
+
+/* the components to typeset again after a reconfiguration, per MathJax object so that reconfiguring the document of an
+isolated context only typesets the components using it again */
+const listeners = new WeakMap<MathJax3Object, ReconfigurationListener[]>()
+
+/**
+ * Calls the listener every time the MathJax 3 object has been reconfigured. Returns a function which removes the
+ * listener.
+ */
+export const onReconfigured = (mathJax: MathJax3Object, listener: ReconfigurationListener) => {
+    const objectListeners = listeners.get(mathJax) || []
+    listeners.set(mathJax, [...objectListeners, listener])
+    return () => {
+        listeners.set(mathJax, (listeners.get(mathJax) || []).filter((other) => other !== listener))
+    }
+}
+
+/**
+ * Whether the configurations are equal, comparing objects and arrays by their contents and functions by their source,
+ * so that a configuration written as a literal, which is a new object every time it is rendered, is not taken for a
+ * new configuration.
+ */
+export const isSameConfig = (config: unknown, other: unknown): boolean => {
+    if(config === other) return true
+    if(typeof config === "function" && typeof other === "function") return config.toString() === other.toString()
+    if(typeof config !== "object" || typeof other !== "object" || config === null || other === null) return false
+    if(Array.isArray(config) !== Array.isArray(other)) return false
+    const keys = Object.keys(config)
+    const otherKeys = Object.keys(other)
+    return keys.length === otherKeys.length && keys.every((key) =>
+        otherKeys.indexOf(key) !== -1 && isSameConfig((config as any)[key], (other as any)[key])
+    )
+}
+
+// sections of the configuration which configure the input and output processors and the document
+export const PROCESSOR_SECTIONS = ["tex", "mml", "asciimath", "chtml", "svg", "options"]
+
+// typeset math is restored to its source in the page so that it can be typeset again with the new configuration
+const restoreMath = (mathJax: any) => {
+    const mathDocument = mathJax.startup.document
+    Array.from<any>(mathDocument.math).forEach((item) => item.removeFromDocument(true))
+    mathDocument.clear()
+}
+
+// MathJax loaded from a script loads the output processor and TeX packages it lacks with its component loader
+export const loadComponents = (mathJax: any, config: MathJax3Config) => {
+    const output: string | undefined = config.startup?.output
+    const packages: string[] = Array.isArray((config.tex as OptionList)?.packages) ? config.tex.packages : []
+    const components = [
+        ...(output && !mathJax.startup.constructors[output] ? [`output/${output}`] : []),
+        ...packages.filter((pkg) => pkg !== "base").map((pkg) => `[tex]/${pkg}`)
+    ]
+    return components.length > 0 && mathJax.loader ? mathJax.loader.load(...components) : Promise.resolve()
+}
+
+const rebuildFromComponents = (mathJax: any, config: MathJax3Config) =>
+    loadComponents(mathJax, config).then(() => {
+        PROCESSOR_SECTIONS.forEach((section) => {
+            const options = (config as OptionList)[section]
+            if(typeof options !== "undefined") mathJax.config[section] = { ...(mathJax.config[section] || {}), ...options }
+        })
+        if(config.startup?.output) mathJax.config.startup.output = config.startup.output
+        // creates new input and output processors and a new document from the configuration, like at startup
+        mathJax.startup.getComponents()
+        mathJax.startup.makeMethods()
+    })
+
+/* MathJax built by a loader (a local loader or one building an isolated document) is built again and the functions of
+the new object are moved to the existing one */
+const rebuildWithLoader = (mathJax: MathJax3Object, config: MathJax3Config, loader: MathJaxLocalLoader) => {
+    const global = (window as any).MathJax === mathJax
+    return loader({ ...config, startup: { ...(config.startup || {}), typeset: false } }).then((rebuilt) => {
+        Object.assign(mathJax, rebuilt)
+        if(global) Object.assign(window, { MathJax: mathJax })
+    })
+}
+
+/**
+ * Rebuilds the input and output processors and the document of MathJax 3 with a new configuration, after which
+ * listeners added with onReconfigured are called. Typesetting waits until MathJax has been reconfigured since it always
+ * waits for the startup promise of MathJax, which is replaced by the reconfiguration.
+ */
+export const reconfigureMathJax = (
+    mathJax: MathJax3Object,
+    config: MathJax3Config,
+    loader?: MathJaxLocalLoader
+): Promise<void> => {
+    const reconfiguration = mathJax.startup.promise
+        // a failed startup or reconfiguration doesn't prevent a new configuration from being applied
+        .catch(() => undefined)
+        .then(() => {
+            restoreMath(mathJax)
+            return loader ? rebuildWithLoader(mathJax, config, loader) : rebuildFromComponents(mathJax, config)
+        })
+    mathJax.startup.promise = reconfiguration
+    return reconfiguration.then(() => (listeners.get(mathJax) || []).forEach((listener) => listener()))
+}
@@ -0,0 +1,171 @@
+import type { MathJax3Object } from "../MathJax3"
+
+// the input formats in the names of the typesetting functions
+export type MathInputFormat = "tex" | "asciimath" | "mathml"
+
+export interface MathValidationOptions {
+    // defaults to "tex"
+    format?: MathInputFormat
+    // whether to validate as display math (true) or inline math (false), defaults to true
+    display?: boolean
+}
+
+export interface MathDiagnostic {
+    message: string
+    // identifier of the TeX error in MathJax, such as "MissingArgFor" or "UndefinedControlSequence"
+    id?: string
+    // approximate position of the problem in the text, when it can be determined
+    offset?: number
+    // the TeX command the problem concerns, when there is one
+    command?: string
+}
+
+// the name of the input processor of each format in MathJax
+const INPUT_JAX: Record<MathInputFormat, string> = { tex: "TeX", asciimath: "AsciiMath", mathml: "MathML" }
+
+const unescapeAttribute = (value: string) => value
+    .replace(/&quot;/g, "\"")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+
+// the position of the command in the text, which must not be followed by more letters as in \frac and \fracx
+const offsetOf = (text: string, command: string) => {
+    const match = new RegExp(`${command.replace(/\\/g, "\\\\")}(?![a-zA-Z])`).exec(text)
+    return match !== null ? match.index : undefined
+}
+
+// the position of the first closing brace without an opening brace or, if close is false, the last unclosed brace
+const unbalancedBrace = (text: string, close: boolean) => {
+    const open: number[] = []
+    for(let i = 0; i < text.length; i++) {
+        if(text.charAt(i) === "\\") i++
+        else if(text.charAt(i) === "{") open.push(i)
+        else if(text.charAt(i) === "}") {
+            if(open.length === 0 && close) return i
+            open.pop()
+        }
+    }
+    return close ? undefined : open.pop()
+}
+
+const texDiagnostic = (text: string, id: string, message: string): MathDiagnostic => {
+    const command = /\\[a-zA-Z]+/.exec(message)?.[0]
+    const offset = id === "ExtraCloseMissingOpen"
+        ? unbalancedBrace(text, true)
+        : id === "ExtraOpenMissingClose" || id === "MissingCloseBrace"
+            ? unbalancedBrace(text, false)
+            : typeof command !== "undefined" ? offsetOf(text, command) : undefined
+    return {
+        message,
+        id,
+        ...(typeof offset !== "undefined" ? { offset } : {}),
+        ...(typeof command !== "undefined" ? { command } : {})
+    }
+}
+
+// the maps of the newcommand package which \newcommand, \def, \let, \newenvironment and the like add definitions to
+const DEFINITION_MAPS = ["new-Command", "new-Environment", "new-Delimiter"]
+
+/* keeps the state of the TeX input processor, which is shared with all math typeset in the page, so that it can be
+restored after validation; otherwise, macros defined in a draft would stay defined and equations in it would be numbered
+and have their labels taken as if they had been typeset */
+const saveTexState = (jax: any) => {
+    const maps = DEFINITION_MAPS
+        .map((name) => jax.parseOptions.handlers.retrieve(name))
+        .filter((map: any) => map !== null)
+    const definitions = maps.map((map: any) => new Map(map.map))
+    const tags = jax.parseOptions.tags
+    const { counter, allCounter } = tags
+    const allLabels = { ...tags.allLabels }
+    const allIds = { ...tags.allIds }
+    return () => {
+        maps.forEach((map: any, index: number) => {
+            map.map = definitions[index]
+        })
+        Object.assign(tags, { counter, allCounter, allLabels, allIds })
+    }
+}
+
+/* macros which no package of the TeX input processor defines; MathJax only reports them as errors without the
+noundefined package, which otherwise shows them in the output as they are */
+const undefinedMacros = (jax: any, text: string) => {
+    const handlers = jax.parseOptions.handlers
+    const macros = handlers.get("macro")
+    const delimiters = handlers.get("delimiter")
+    const names: string[] = []
+    // commands of other characters than letters, such as \\ and \{, are matched so that they are skipped
+    const pattern = /\\([a-zA-Z]+|.)/g
+    let match = pattern.exec(text)
+    while(match !== null) {
+        const name = match[1]
+        const known = !/^[a-zA-Z]/.test(name) || macros.contains(name) || delimiters.contains(`\\${name}`)
+        if(!known && names.indexOf(name) === -1) names.push(name)
+        match = pattern.exec(text)
+    }
+    return names.map((name) => ({
+        message: `Undefined control sequence \\${name}`,
+        id: "UndefinedControlSequence",
+        offset: offsetOf(text, `\\${name}`),
+        command: `\\${name}`
+    }))
+}
+
+/**
+ * Checks math with the input processor of MathJax 3 for the format and resolves with the problems found in it, which
+ * are none if the math is valid. TeX is checked against the packages and macros configured for the input processor,
+ * and macros defined with \newcommand or \def in the math are only known while it is validated.
+ */
+export const validateMath = (
+    mathJax: MathJax3Object,
+    text: string,
+    { format = "tex", display = true }: MathValidationOptions = {}
+): Promise<MathDiagnostic[]> => {
+    const jax = mathJax.startup.document.inputJax.find((input: any) => input.name === INPUT_JAX[format])
+    if(typeof jax === "undefined")
+        return Promise.reject(Error(`MathJax has been loaded without the input processor for ${INPUT_JAX[format]}`))
+    const texErrors: MathDiagnostic[] = []
+    let undefinedInText: MathDiagnostic[] = []
+    // TeX errors are caught by the input processor, which formats them as MathML with only their message
+    const convert = () => {
+        texErrors.length = 0
+        if(format !== "tex") return (mathJax as any)[`${format}2mml`](text, { display })
+        const formatError = jax.options.formatError
+        jax.options.formatError = (input: any, err: any) => {
+            texErrors.push(texDiagnostic(text, err.id, err.message))
+            return formatError(input, err)
+        }
+        const restoreTexState = saveTexState(jax)
+        try {
+            const mathML = (mathJax as any).tex2mml(text, { display })
+            // macros defined in the math are only known until the state is restored
+            undefinedInText = undefinedMacros(jax, text)
+            return mathML
+        } finally {
+            jax.options.formatError = formatError
+            restoreTexState()
+        }
+    }
+    return mathJax._.mathjax.mathjax.handleRetriesFor(convert).then(
+        (mathML: string) => {
+            if(format !== "tex") {
+                // MathJax adds this attribute, with the error message, to the MathML of math it could not process
+                const pattern = /data-mjx-error="([^"]*)"/g
+                const diagnostics: MathDiagnostic[] = []
+                let match = pattern.exec(mathML)
+                while(match !== null) {
+                    diagnostics.push({ message: unescapeAttribute(match[1]) })
+                    match = pattern.exec(mathML)
+                }
+                return diagnostics
+            }
+            const reported = texErrors.map(({ command }) => command)
+            return [
+                ...texErrors,
+                ...undefinedInText.filter(({ command }) => reported.indexOf(command) === -1)
+            ]
+        },
+        // errors which are not TeX errors, such as unknown MathML elements, are thrown by the input processors
+        (err: any) => [{ message: typeof err?.message === "string" ? err.message : `${err}` }]
+    )
+}
@@ -0,0 +1,168 @@
+import { useRef } from "react"
+import type { MathJax2Object } from "../MathJax2"
+import type { MathJax3Object } from "../MathJax3"
+import type { EquationNumbering } from "./EquationNumbering"
+import { createMathJaxError, MathJaxErrorPhase } from "./MathJaxError"
+
+export type MathJaxPromise = { version: 2; promise: Promise<MathJax2Object> } | { version: 3; promise: Promise<MathJax3Object> }
+
+/**
+ * Typesets elements in render mode "post". Elements scheduled in the same microtask are typeset together in one batch,
+ * and batches are run one after another, so that many MathJax components rendering at the same time only result in a
+ * single typesetting operation in MathJax.
+ */
+export interface TypesettingScheduler {
+    // resolves when the batch containing the element has been typeset and rejects with a MathJaxError if it failed
+    typeset: (element: HTMLElement) => Promise<void>
+    // typesets all elements with equation numbering again in a batch of its own, even if no element is scheduled
+    renumber: () => void
+    /* calls the listener with true right before MathJax starts changing the page to typeset a batch and with false when
+    it is done, along with the elements of the batch, returns a function which removes the listener */
+    onBatch: (listener: BatchListener) => () => void
+}
+
+// the elements are null when all elements with equation numbering are typeset, which MathJax may change all of
+type BatchListener = (typesetting: boolean, elements: HTMLElement[] | null) => void
+
+interface PendingTypeset {
+    resolve: () => void
+    reject: (error: any) => void
+}
+
+export const createTypesettingScheduler = (
+    mjPromise: MathJaxPromise,
+    equations?: EquationNumbering
+): TypesettingScheduler => {
+    let pending = new Map<HTMLElement, PendingTypeset[]>()
+    let flushScheduled = false
+    let renumberRequested = false
+    // the batch currently being typeset, if any, which the next batch waits for
+    let running: Promise<void> = Promise.resolve()
+    const listeners: BatchListener[] = []
+
+    const notify = (typesetting: boolean, elements: HTMLElement[] | null) =>
+        listeners.slice().forEach((listener) => listener(typesetting, elements))
+
+    // the listeners are notified around the typesetting whether it succeeds or not
+    const notifying = (elements: HTMLElement[] | null, typesetElements: () => Promise<void>) => {
+        notify(true, elements)
+        let result: Promise<void>
+        try {
+            result = typesetElements()
+        } catch(err) {
+            result = Promise.reject(err)
+        }
+        return result.then(
+            () => notify(false, elements),
+            (err) => {
+                notify(false, elements)
+                return Promise.reject(err)
+            }
+        )
+    }
+
+    const typesetBatch = (elements: HTMLElement[]): Promise<void> => {
+        let phase: MathJaxErrorPhase = "load"
+        const typesetting = mjPromise.version === 3
+            ? mjPromise.promise
+                .then((mathJax) => {
+                    phase = "startup"
+                    return mathJax.startup.promise.then(() => {
+                        phase = "typeset"
+                        return notifying(equations ? null : elements, () => {
+                            if(equations) return equations.typeset(mathJax, elements)
+                            mathJax.typesetClear(elements)
+                            return mathJax.typesetPromise(elements)
+                        })
+                    })
+                })
+            : mjPromise.promise
+                .then((mathJax) => {
+                    phase = "typeset"
+                    return notifying(elements, () => new Promise<void>((res) => {
+                        mathJax.Hub.Queue(["Typeset", mathJax.Hub, elements])
+                        mathJax.Hub.Queue(() => res())
+                    }))
+                })
+        return typesetting.catch((err) => Promise.reject(createMathJaxError(phase, err)))
+    }
+
+    const flush = () => {
+        flushScheduled = false
+        const batch = pending
+        pending = new Map()
+        const renumbering = renumberRequested
+        renumberRequested = false
+        running = running.then(() => {
+            const elements: HTMLElement[] = []
+            // elements removed from the document while waiting don't need to be typeset
+            batch.forEach((_, element) => {
+                if(element.isConnected) elements.push(element)
+            })
+            const settle = (element: HTMLElement, err?: any) => batch.get(element)!.forEach(({ resolve, reject }) =>
+                typeof err !== "undefined" ? reject(err) : resolve()
+            )
+            const result = elements.length > 0 || renumbering ? typesetBatch(elements) : Promise.resolve()
+            return result.then(
+                () => batch.forEach((_, element) => settle(element)),
+                (err) => {
+                    /* the error of one element would make all elements of the batch fail, so they are typeset one by
+                    one to attribute it to the element which failed, unless MathJax failed to load or all elements are
+                    typeset together because of equation numbering */
+                    if(elements.length < 2 || err.phase !== "typeset" || equations) {
+                        batch.forEach((_, element) => settle(element, err))
+                        return
+                    }
+                    batch.forEach((_, element) => {
+                        if(elements.indexOf(element) === -1) settle(element)
+                    })
+                    return elements.reduce((previous, element) => previous.then(() => typesetBatch([element]).then(
+                        () => settle(element),
+                        (elementErr) => settle(element, elementErr)
+                    )), Promise.resolve())
+                }
+            )
+        })
+    }
+
+    const scheduleFlush = () => {
+        if(!flushScheduled) {
+            flushScheduled = true
+            Promise.resolve().then(flush)
+        }
+    }
+
+    const typeset = (element: HTMLElement) => new Promise<void>((resolve, reject) => {
+        pending.set(element, [...(pending.get(element) || []), { resolve, reject }])
+        scheduleFlush()
+    })
+
+    // failures are not reported since no component waits for the renumbering
+    const renumber = () => {
+        if(typeof equations === "undefined") return
+        renumberRequested = true
+        scheduleFlush()
+    }
+
+    const onBatch = (listener: BatchListener) => {
+        listeners.push(listener)
+        return () => {
+            const index = listeners.indexOf(listener)
+            if(index !== -1) listeners.splice(index, 1)
+        }
+    }
+
+    return { typeset, renumber, onBatch }
+}
+
+/**
+ * Returns the scheduler supplied by the MathJaxBaseContext or, if the provider of the context does not supply one, a
+ * scheduler owned by the calling component.
+ */
+export const useTypesettingScheduler = (mjContext?: MathJaxPromise & { scheduler?: TypesettingScheduler }) => {
+    const ownScheduler = useRef<TypesettingScheduler | null>(null)
+    if(typeof mjContext === "undefined") return undefined
+    if(mjContext.scheduler) return mjContext.scheduler
+    if(ownScheduler.current === null) ownScheduler.current = createTypesettingScheduler(mjContext)
+    return ownScheduler.current
+}
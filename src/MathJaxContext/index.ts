@@ -3,6 +3,23 @@ export {
     default as MathJaxContext,
     MathJaxOverrideableProps,
     MathJaxContextProps,
+    MathJaxLazyOptions,
     MathJaxBaseContext,
-    MathJaxSubscriberProps
+    resetFailedLoad,
+    validate,
+    MathJaxSubscriberProps,
+    MathJaxServerRenderer,
+    MathJaxLocalLoader,
+    TypesettingFunction,
+    MathJaxError,
+    MathJaxErrorPhase,
+    ConversionCacheStats,
+    EquationLabel,
+    MathJaxOutputNode,
+    MathJaxMetricsEvent,
+    MathJaxMetricsListener,
+    MathJaxStats,
+    MathDiagnostic,
+    MathInputFormat,
+    MathValidationOptions
 } from "./MathJaxContext"
@@ -0,0 +1,36 @@
+import { TeX } from "mathjax-full/js/input/tex"
+import { MathML } from "mathjax-full/js/input/mathml"
+import { AsciiMath } from "mathjax-full/js/input/asciimath"
+import { AllPackages } from "mathjax-full/js/input/tex/AllPackages"
+import type { MathJax3Config, OptionList } from "./MathJax3"
+
+/* helpers for building MathJax 3 from the classes of mathjax-full, shared by server side rendering and local loading
+of MathJax in the browser */
+
+/* fonts are not bundled with mathjax-full so by default, CHTML output refers to the fonts of the same CDN release as
+the one MathJaxContext downloads MathJax 3 from */
+const DEFAULT_FONT_URL = "https://cdnjs.cloudflare.com/ajax/libs/mathjax/3.2.0/es5/output/chtml/fonts/woff-v2"
+
+// packages which need the MathJax component loader, which is not available when MathJax is built from its classes
+const LOADER_PACKAGES = ["autoload", "require"]
+
+// the configuration with the defaults for MathJax built from its classes, all TeX packages and the fonts from the CDN
+export const withDefaults = (config: MathJax3Config): MathJax3Config => {
+    const packages = (config.tex as OptionList | undefined)?.packages
+    return {
+        ...config,
+        tex: {
+            ...(config.tex || {}),
+            packages: (Array.isArray(packages) ? packages : AllPackages)
+                .filter((pkg: string) => LOADER_PACKAGES.indexOf(pkg) === -1)
+        },
+        chtml: { fontURL: DEFAULT_FONT_URL, ...(config.chtml || {}) }
+    }
+}
+
+// TeX, MathML and AsciiMath input for a configuration with defaults
+export const createInputJax = (config: MathJax3Config) => [
+    new TeX(config.tex || {}),
+    new MathML(config.mml || {}),
+    new AsciiMath(config.asciimath || {})
+]
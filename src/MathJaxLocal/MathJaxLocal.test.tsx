@@ -0,0 +1,77 @@
+// @ts-ignore
+import React from "react"
+import { render, waitFor } from "@testing-library/react"
+import { readFileSync } from "fs"
+import { dirname, join } from "path"
+import { MathJax, MathJaxContext } from "../index"
+import { discardLoadedMathJax } from "../MathJaxContext/MathJaxContext"
+import { createLocalLoader } from "./MathJaxLocal"
+
+it("builds MathJax from mathjax-full without adding a script and typesets with it", async () => {
+    const onStartup = jest.fn()
+    const { container } = render(
+        <MathJaxContext loader={createLocalLoader()} config={{ startup: { typeset: false } }} onStartup={onStartup}>
+            <MathJax renderMode="pre" text="x^2" typesettingOptions={{ fn: "tex2svg" }} inline />
+            <MathJax>{"\\(\\frac{1}{2}\\)"}</MathJax>
+        </MathJaxContext>
+    )
+    await waitFor(() => expect(container.querySelectorAll("mjx-container svg")).toHaveLength(2), { timeout: 10000 })
+    expect(document.querySelector("script")).toBeNull()
+    expect(onStartup).toHaveBeenCalledWith((window as any).MathJax)
+    expect((window as any).MathJax.tex2mml("x")).toContain("<mi>x</mi>")
+}, 15000)
+
+it("labels math with speech from the speech rule engine served along with the page", async () => {
+    discardLoadedMathJax()
+    const engineDirectory = dirname(require.resolve("speech-rule-engine/lib/sre_browser.js"))
+    // the page serves the locales of the speech rule engine
+    class ServedRequest {
+        readyState = 0
+        status = 0
+        responseText = ""
+        onreadystatechange: () => void = () => undefined
+        private file = ""
+        open(method: string, url: string) {
+            this.file = join(engineDirectory, "mathmaps", url.substring(url.lastIndexOf("/") + 1))
+        }
+        send() {
+            setTimeout(() => {
+                Object.assign(this, { readyState: 4, status: 200, responseText: readFileSync(this.file, "utf8") })
+                this.onreadystatechange()
+            }, 0)
+        }
+    }
+    const globals = window as any
+    const originalRequest = globals.XMLHttpRequest
+    globals.XMLHttpRequest = ServedRequest
+    // and its script, which is run in the page when it is added
+    const appendChild = document.head.appendChild.bind(document.head)
+    const appendToHead = jest.spyOn(document.head, "appendChild").mockImplementation((node: any) => {
+        if(node.localName !== "script" || node.src !== "http://localhost/sre/sre_browser.js") return appendChild(node)
+        const served = document.createElement("script")
+        served.textContent = readFileSync(join(engineDirectory, "sre_browser.js"), "utf8")
+        appendChild(served)
+        setTimeout(() => node.onload(), 0)
+        return node
+    })
+    try {
+        const onSpeechText = jest.fn()
+        const loader = createLocalLoader({ speech: { src: "/sre/sre_browser.js", json: "/sre/mathmaps" } })
+        const { container } = render(
+            <MathJaxContext loader={loader} config={{ startup: { typeset: false } }} accessibility>
+                <MathJax renderMode="pre" text="x^2" typesettingOptions={{ fn: "tex2svg" }} onSpeechText={onSpeechText} />
+            </MathJaxContext>
+        )
+        await waitFor(() => expect(onSpeechText).toHaveBeenCalled(), { timeout: 10000 })
+        // the wording of the rules of the engine depends on the XPath support of the DOM
+        const speech = globals.SRE.toSpeech("<math><msup><mi>x</mi><mn>2</mn></msup></math>")
+        expect(speech).toMatch(/^x (squared|Superscript 2)$/)
+        expect(onSpeechText).toHaveBeenCalledWith(speech)
+        expect(container.querySelector("mjx-container")!.getAttribute("aria-label")).toBe(speech)
+        expect(document.querySelector("script[type='text/x-sre-config']")!.textContent)
+            .toBe(JSON.stringify({ json: "/sre/mathmaps" }))
+    } finally {
+        appendToHead.mockRestore()
+        globals.XMLHttpRequest = originalRequest
+    }
+}, 15000)
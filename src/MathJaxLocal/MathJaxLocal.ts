@@ -0,0 +1,137 @@
+import { mathjax } from "mathjax-full/js/mathjax"
+import { CHTML } from "mathjax-full/js/output/chtml"
+import { SVG } from "mathjax-full/js/output/svg"
+import { browserAdaptor } from "mathjax-full/js/adaptors/browserAdaptor"
+import { RegisterHTMLHandler } from "mathjax-full/js/handlers/html"
+import { TeX } from "mathjax-full/js/input/tex"
+import { MathML } from "mathjax-full/js/input/mathml"
+import { AsciiMath } from "mathjax-full/js/input/asciimath"
+import { STATE } from "mathjax-full/js/core/MathItem"
+import { SerializedMmlVisitor } from "mathjax-full/js/core/MmlTree/SerializedMmlVisitor"
+// sets up how the semantic enrichment finds the speech rule engine, so it must be imported before the enrichment
+import { loadSpeechRuleEngine } from "./SpeechRuleEngine"
+import { EnrichedMathDocumentMixin } from "mathjax-full/js/a11y/semantic-enrich"
+import type { MathJaxLocalLoader } from "../MathJaxContext"
+import { createMathJaxObject } from "../MathJaxContext/MathJaxDocument"
+import type { MathJax3Config, MathJax3Object } from "../MathJax3"
+import type { SpeechOptions } from "../MathJaxSpeech/MathJaxSpeech"
+import { createInputJax, withDefaults } from "../MathJaxFull"
+
+type LocalOutput = "chtml" | "svg"
+
+export interface LocalSpeechOptions extends SpeechOptions {
+    // URL of lib/sre_browser.js of the speech-rule-engine package, served along with the page
+    src: string
+    // URL of the lib/mathmaps directory of the speech-rule-engine package, from which the locales are read
+    json: string
+}
+
+export interface LocalLoaderOptions {
+    /* output jax to use unless set with startup.output in the configuration, SVG output needs no fonts and can thereby
+    be used without any network requests at all */
+    output?: LocalOutput
+    // semantic enrichment with the speech rule engine served along with the page, which labels math with its speech
+    speech?: LocalSpeechOptions
+}
+
+// the adaptor and handler are registered with MathJax globally so they are shared by all loaders
+let registration: { adaptor: ReturnType<typeof browserAdaptor>; handler: ReturnType<typeof RegisterHTMLHandler> }
+
+const register = () => {
+    if(typeof registration === "undefined") {
+        const adaptor = browserAdaptor()
+        registration = { adaptor, handler: RegisterHTMLHandler(adaptor) }
+    }
+    return registration
+}
+
+// the modules of mathjax-full which MathJax loaded from a script makes available as the "_" property of MathJax
+const modules = {
+    mathjax: { mathjax },
+    core: { MathItem: { STATE }, MmlTree: { SerializedMmlVisitor: { SerializedMmlVisitor } } }
+}
+
+/* with speech, documents are created by the registered handler with its document class extended, which also creates
+isolated documents of the MathJax object */
+const speechHandler = (handler: any, adaptor: any) => {
+    const mmlJax = new MathML()
+    mmlJax.setAdaptor(adaptor)
+    const extended = Object.create(handler)
+    extended.documentClass = EnrichedMathDocumentMixin(handler.documentClass, mmlJax)
+    return extended
+}
+
+const buildMathJax = (initialConfig: MathJax3Config, output: LocalOutput, speech?: LocalSpeechOptions) => {
+    const registered = register()
+    const { adaptor } = registered
+    const handler = typeof speech !== "undefined" ? speechHandler(registered.handler, adaptor) : registered.handler
+    // options given in the configuration take precedence over the ones for speech
+    const config = withDefaults(typeof speech !== "undefined"
+        ? {
+            ...initialConfig,
+            options: {
+                enableEnrichment: true,
+                sre: {
+                    speech: "shallow",
+                    locale: speech.locale ?? "en",
+                    domain: speech.domain ?? "mathspeak",
+                    style: speech.style ?? "default",
+                    json: speech.json
+                },
+                ...(initialConfig.options || {})
+            }
+        }
+        : initialConfig)
+    const mathDocument = handler.create(window.document, {
+        ...(config.options || {}),
+        InputJax: createInputJax(config),
+        OutputJax: output === "svg" ? new SVG(config.svg || {}) : new CHTML(config.chtml)
+    })
+    const mathJax = createMathJaxObject(modules, config, mathDocument, {
+        adaptor,
+        handler,
+        constructors: { tex: TeX, mml: MathML, asciimath: AsciiMath, chtml: CHTML, svg: SVG }
+    })
+    // like MathJax loaded from a script, the page is typeset at startup unless disabled in the configuration
+    mathJax.startup.promise = config.startup?.typeset === false
+        ? Promise.resolve()
+        : mathJax.typesetPromise(config.startup?.elements ?? null)
+    return mathJax as MathJax3Object
+}
+
+// builds MathJax and makes it available globally just like when it is loaded from a script
+const installMathJax = (config: MathJax3Config, output: LocalOutput, speech?: LocalSpeechOptions) => {
+    const configuredOutput = config.startup?.output
+    const mathJax = buildMathJax(
+        config,
+        configuredOutput === "chtml" || configuredOutput === "svg" ? configuredOutput : output,
+        speech
+    )
+    /* the AsciiMath input of mathjax-full uses parts of MathJax 2 which it adds to the global MathJax object when it is
+    imported, so they are kept */
+    const previous = (window as any).MathJax
+    if(previous) Object.keys(previous).forEach((key) => {
+        if(!(key in mathJax)) mathJax[key] = previous[key]
+    })
+    Object.assign(window, { MathJax: mathJax })
+    return mathJax
+}
+
+/**
+ * Creates a loader which builds MathJax 3 in the page from the classes of mathjax-full instead of downloading MathJax
+ * from a script. The loader is passed to MathJaxContext via its loader prop. TeX, MathML and AsciiMath input are
+ * included and the TeX packages can be chosen with the packages option of the TeX configuration; packages which need
+ * the MathJax component loader (autoload and require) are not available. With speech, math is enriched semantically
+ * by the speech rule engine served along with the page, and MathJax is built once the engine has been loaded.
+ */
+export const createLocalLoader = ({ output = "svg", speech }: LocalLoaderOptions = {}): MathJaxLocalLoader =>
+    (config: MathJax3Config) => {
+        if(typeof window === "undefined") return Promise.reject(Error("MathJax can only be loaded locally in a browser"))
+        if(typeof speech !== "undefined")
+            return loadSpeechRuleEngine(speech.src, speech.json).then(() => installMathJax(config, output, speech))
+        try {
+            return Promise.resolve(installMathJax(config, output))
+        } catch(err) {
+            return Promise.reject(err)
+        }
+    }
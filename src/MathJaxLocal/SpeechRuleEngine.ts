@@ -0,0 +1,70 @@
+import { mathjax } from "mathjax-full/js/mathjax"
+
+// how long to wait for the speech rule engine to have read its locale once its script has loaded
+const ENGINE_TIMEOUT = 20000
+const ENGINE_POLL_DELAY = 100
+
+let engineLoaded: () => void = () => undefined
+// settles when the script of the speech rule engine has run, which mathjax-full waits for before it enriches math
+const engineScript = new Promise<void>((resolve) => engineLoaded = resolve)
+
+/* the semantic enrichment of mathjax-full loads the speech rule engine with mathjax.asyncLoad when it is imported
+unless the engine is already in the page, which would otherwise fail since there is no component loader; the engine is
+instead the script given to the local loader, so the enrichment waits for it. This module must therefore be imported
+before the enrichment. */
+if(typeof mathjax.asyncLoad !== "function") {
+    mathjax.asyncLoad = (file: string) => /speech-rule-engine|sre/.test(file)
+        ? engineScript
+        : Promise.reject(Error(`MathJax built by a local loader can't load '${file}'`))
+}
+
+// the speech rule engine is loaded once per page, by the first local loader with speech
+let engine: Promise<void> | undefined
+
+const engineIsReady = () => {
+    const sre = (window as any).sre
+    return typeof sre !== "undefined" && sre.Engine.isReady()
+}
+
+// the engine reads the files of its locale asynchronously after its script has run
+const whenEngineReady = () => new Promise<void>((resolve, reject) => {
+    const start = Date.now()
+    const check = () => {
+        if(engineIsReady()) resolve()
+        else if(Date.now() - start < ENGINE_TIMEOUT) setTimeout(check, ENGINE_POLL_DELAY)
+        else reject(Error("Timed out waiting for the speech rule engine to read its locale"))
+    }
+    check()
+})
+
+/**
+ * Loads the browser build of the speech rule engine (lib/sre_browser.js of the speech-rule-engine package) from src
+ * unless it is already in the page, and resolves when it is ready. The engine reads its locales from the json
+ * directory (lib/mathmaps of the package) rather than from its CDN, which it is told with a configuration block in the
+ * page since it reads the first locale as soon as its script has run.
+ */
+export const loadSpeechRuleEngine = (src: string, json: string): Promise<void> => {
+    if(typeof engine === "undefined") {
+        engine = typeof (window as any).sre !== "undefined"
+            ? Promise.resolve()
+            : new Promise<void>((resolve, reject) => {
+                const config = document.createElement("script")
+                config.type = "text/x-sre-config"
+                config.textContent = JSON.stringify({ json })
+                document.head.appendChild(config)
+                const script = document.createElement("script")
+                script.src = src
+                script.onload = () => resolve()
+                script.onerror = () => {
+                    // another local loader may try again
+                    engine = undefined
+                    config.remove()
+                    script.remove()
+                    reject(Error(`Failed to load the speech rule engine from ${src}`))
+                }
+                document.head.appendChild(script)
+            })
+        engine.then(engineLoaded, () => undefined)
+    }
+    return engine.then(whenEngineReady)
+}
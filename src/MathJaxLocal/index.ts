@@ -0,0 +1 @@
+export { createLocalLoader, LocalLoaderOptions, LocalSpeechOptions } from "./MathJaxLocal"
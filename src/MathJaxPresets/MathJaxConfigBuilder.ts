@@ -0,0 +1,123 @@
+import type { MathJax3Config, OptionList } from "../MathJax3"
+import type { MathInputFormat } from "../MathJaxContext"
+import { V3_COMPONENTS_URL } from "../MathJaxContext/MathJaxContext"
+
+export type MathOutputFormat = "chtml" | "svg"
+
+// the typesetting functions MathJax generates for the input and output formats, including those converting to MathML
+export type PresetTypesettingFunction<I extends MathInputFormat, O extends MathOutputFormat> =
+    `${I}2${O | "mml"}` | `${I}2${O | "mml"}Promise`
+
+export type TexPackage = "base"
+    | "action"
+    | "ams"
+    | "amscd"
+    | "autoload"
+    | "bbox"
+    | "boldsymbol"
+    | "braket"
+    | "bussproofs"
+    | "cancel"
+    | "cases"
+    | "centernot"
+    | "color"
+    | "colortbl"
+    | "colorv2"
+    | "configmacros"
+    | "empheq"
+    | "enclose"
+    | "extpfeil"
+    | "gensymb"
+    | "html"
+    | "mathtools"
+    | "mhchem"
+    | "newcommand"
+    | "noerrors"
+    | "noundefined"
+    | "physics"
+    | "require"
+    | "setoptions"
+    | "tagformat"
+    | "textcomp"
+    | "textmacros"
+    | "unicode"
+    | "upgreek"
+    | "verb"
+
+// keeps the compiler from inferring the formats from the typesetting function instead of only from the formats
+export type FormatOf<T> = [T][T extends any ? 0 : never]
+
+export interface MathJaxConfigOptions<I extends MathInputFormat, O extends MathOutputFormat> {
+    // one or more input formats, the first of which is the one of the default typesetting function
+    input: I | [I, ...I[]]
+    output: O
+    // the TeX packages to use instead of the default ones of MathJax, only with TeX input
+    packages?: "tex" extends I ? TexPackage[] : never
+    // defaults to the conversion from the first input format to the output format
+    fn?: PresetTypesettingFunction<FormatOf<I>, FormatOf<O>>
+    // further configuration, merged into the sections of the built configuration
+    config?: MathJax3Config
+}
+
+/**
+ * Configuration of MathJax 3 for a MathJaxContext along with the script to download MathJax from and the typesetting
+ * function to use in render mode "pre", which can be passed to the context as they are.
+ */
+export interface MathJaxPresetConfig<I extends MathInputFormat, O extends MathOutputFormat> {
+    config: MathJax3Config
+    src: string
+    typesettingOptions: { fn: PresetTypesettingFunction<I, O> }
+}
+
+// the names of the formats in the names of the components of MathJax
+const INPUT_COMPONENTS: Record<MathInputFormat, string> = { tex: "tex", mathml: "mml", asciimath: "asciimath" }
+
+const isSection = (value: unknown): value is OptionList =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+
+const mergeConfig = (config: MathJax3Config, extra: MathJax3Config) => {
+    const merged: MathJax3Config = { ...config }
+    Object.keys(extra).forEach((section) => {
+        merged[section] = isSection(config[section]) && isSection(extra[section])
+            ? { ...config[section], ...extra[section] }
+            : extra[section]
+    })
+    return merged
+}
+
+/**
+ * Builds the configuration of MathJax 3 for the input and output formats and TeX packages. MathJax is downloaded as a
+ * single combined component from the CDN when there is one for the formats and otherwise, the input and output
+ * processors are loaded by the component loader of MathJax, as are the TeX packages. The output is also set in the
+ * startup section so that MathJax built by a local loader uses it. Typesetting functions which MathJax does not
+ * generate for the formats and TeX packages without TeX input are rejected by the compiler.
+ */
+export const createMathJaxConfig = <I extends MathInputFormat, O extends MathOutputFormat>({
+    input,
+    output,
+    packages,
+    fn,
+    config = {}
+}: MathJaxConfigOptions<I, O>): MathJaxPresetConfig<I, O> => {
+    const inputs: I[] = Array.isArray(input) ? input : [input]
+    const components = inputs.map((format) => INPUT_COMPONENTS[format])
+    // the CDN has combined components with TeX and MathML input along with either output, but none with AsciiMath
+    const combined = components.every((component) => component === "tex" || component === "mml")
+        ? ["tex", "mml"].filter((component) => components.indexOf(component) !== -1).join("-")
+        : null
+    const load = [
+        ...(combined !== null ? [] : [...components.map((component) => `input/${component}`), `output/${output}`]),
+        // the base package is part of the TeX input processor
+        ...(packages || []).filter((pkg) => pkg !== "base").map((pkg) => `[tex]/${pkg}`)
+    ]
+    const built: MathJax3Config = {
+        ...(load.length > 0 ? { loader: { load } } : {}),
+        ...(packages ? { tex: { packages: ["base", ...packages.filter((pkg) => pkg !== "base")] } } : {}),
+        startup: { output }
+    }
+    return {
+        config: mergeConfig(built, config),
+        src: `${V3_COMPONENTS_URL}/${combined !== null ? `${combined}-${output}` : "startup"}.js`,
+        typesettingOptions: { fn: fn ?? `${inputs[0]}2${output}` as PresetTypesettingFunction<I, O> }
+    }
+}
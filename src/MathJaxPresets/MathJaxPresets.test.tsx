@@ -0,0 +1,102 @@
+// @ts-ignore
+import React, { ReactElement } from "react"
+import { render, waitFor } from "@testing-library/react"
+import MathJax from "../MathJax"
+import { discardLoadedMathJax } from "../MathJaxContext/MathJaxContext"
+import { createLocalLoader } from "../MathJaxLocal"
+import { AsciiMathContext, createMathJaxConfig, MathMLContext, TexChtmlContext, TexSvgContext } from "./index"
+
+const config = { startup: { typeset: false } }
+
+it("builds the configuration, script and typesetting function for the formats and packages", () => {
+    expect(createMathJaxConfig({ input: "tex", output: "svg", packages: ["ams", "physics"] })).toEqual({
+        config: {
+            loader: { load: ["[tex]/ams", "[tex]/physics"] },
+            tex: { packages: ["base", "ams", "physics"] },
+            startup: { output: "svg" }
+        },
+        src: "https://cdnjs.cloudflare.com/ajax/libs/mathjax/3.2.0/es5/tex-svg.js",
+        typesettingOptions: { fn: "tex2svg" }
+    })
+    const mixed = createMathJaxConfig({
+        input: ["mathml", "tex"],
+        output: "chtml",
+        fn: "tex2chtmlPromise",
+        config: { startup: { typeset: false } }
+    })
+    expect(mixed.src).toBe("https://cdnjs.cloudflare.com/ajax/libs/mathjax/3.2.0/es5/tex-mml-chtml.js")
+    expect(mixed.config).toEqual({ startup: { output: "chtml", typeset: false } })
+    expect(mixed.typesettingOptions.fn).toBe("tex2chtmlPromise")
+    const asciiMath = createMathJaxConfig({ input: "asciimath", output: "svg" })
+    expect(asciiMath.src).toBe("https://cdnjs.cloudflare.com/ajax/libs/mathjax/3.2.0/es5/startup.js")
+    expect(asciiMath.config.loader).toEqual({ load: ["input/asciimath", "output/svg"] })
+    expect(asciiMath.typesettingOptions.fn).toBe("asciimath2svg")
+
+    // @ts-expect-error typesetting functions must convert from one of the input formats to the output format
+    createMathJaxConfig({ input: "tex", output: "svg", fn: "tex2chtml" })
+    // @ts-expect-error TeX packages are only available with TeX input
+    createMathJaxConfig({ input: "mathml", output: "svg", packages: ["ams"] })
+    // @ts-expect-error at least one input format is needed
+    createMathJaxConfig({ input: [], output: "svg" })
+    const outputPresets = [
+        <MathMLContext output="svg" typesettingOptions={{ fn: "mathml2svg" }} />,
+        <AsciiMathContext typesettingOptions={{ fn: "asciimath2chtml" }} />,
+        // @ts-expect-error the typesetting function must convert to the output of the preset
+        <MathMLContext output="svg" typesettingOptions={{ fn: "mathml2chtml" }} />,
+        // @ts-expect-error the output of the preset defaults to CHTML
+        <AsciiMathContext typesettingOptions={{ fn: "asciimath2svg" }} />
+    ]
+    expect(outputPresets).toHaveLength(4)
+})
+
+it("typesets with the formats and packages of preset contexts", async () => {
+    const { container } = render(
+        <TexSvgContext loader={createLocalLoader()} packages={["ams", "cancel"]} config={{ startup: { typeset: false } }}>
+            <MathJax id="tex" renderMode="pre" text="\cancel{x}" />
+        </TexSvgContext>
+    )
+    await waitFor(() => expect(container.querySelector("#tex svg")).not.toBeNull(), { timeout: 10000 })
+    expect(container.querySelector("#tex [data-mjx-error]")).toBeNull()
+    expect(document.querySelector("script")).toBeNull()
+}, 15000)
+
+it("uses the output given to AsciiMath and MathML presets", async () => {
+    const { container } = render(
+        <AsciiMathContext loader={createLocalLoader()} output="svg" config={{ startup: { typeset: false } }}>
+            <MathJax id="asciimath" renderMode="pre" text="x^2" />
+        </AsciiMathContext>
+    )
+    await waitFor(() => expect(container.querySelector("#asciimath svg")).not.toBeNull(), { timeout: 10000 })
+}, 15000)
+
+it("converts math in render mode pre with the typesetting function of every preset", async () => {
+    const presets: [string, (math: ReactElement) => ReactElement, string, string][] = [
+        ["tex-svg", (math) => <TexSvgContext loader={createLocalLoader()} config={config}>{math}</TexSvgContext>, "x", "svg"],
+        [
+            "tex-chtml",
+            (math) => <TexChtmlContext loader={createLocalLoader()} config={config}>{math}</TexChtmlContext>,
+            "x",
+            "mjx-math"
+        ],
+        [
+            "asciimath",
+            (math) => <AsciiMathContext loader={createLocalLoader()} config={config}>{math}</AsciiMathContext>,
+            "x^2",
+            "mjx-math"
+        ],
+        [
+            "mathml",
+            (math) => <MathMLContext loader={createLocalLoader()} output="svg" config={config}>{math}</MathMLContext>,
+            "<math><mi>x</mi></math>",
+            "svg"
+        ]
+    ]
+    for(const [id, getContext, text, output] of presets) {
+        // every preset loads MathJax anew since the output of a loaded MathJax is kept when it is reconfigured
+        discardLoadedMathJax()
+        const { container, unmount } = render(getContext(<MathJax id={id} renderMode="pre" text={text} />))
+        await waitFor(() => expect(container.querySelector(`#${id} ${output}`)).not.toBeNull(), { timeout: 10000 })
+        expect(container.querySelector(`#${id} [data-mjx-error]`)).toBeNull()
+        unmount()
+    }
+}, 30000)
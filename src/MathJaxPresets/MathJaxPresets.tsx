@@ -0,0 +1,74 @@
+import React, { FC } from "react"
+import MathJaxContext, { MathInputFormat, MathJaxContextProps, MathJaxOverrideableProps } from "../MathJaxContext"
+import {
+    createMathJaxConfig,
+    FormatOf,
+    MathOutputFormat,
+    PresetTypesettingFunction,
+    TexPackage
+} from "./MathJaxConfigBuilder"
+
+type PresetTypesettingOptions<I extends MathInputFormat, O extends MathOutputFormat> =
+    Omit<NonNullable<MathJaxOverrideableProps["typesettingOptions"]>, "fn"> & { fn: PresetTypesettingFunction<I, O> }
+
+/* props of a MathJaxContext with MathJax 3 for the formats of the preset, the configuration is merged into the one of
+the preset and src replaces the script of the preset */
+export type MathJaxPresetProps<I extends MathInputFormat, O extends MathOutputFormat> = Omit<
+    Extract<MathJaxContextProps, { version?: 3 }>,
+    "version" | "typesettingOptions"
+> & {
+    typesettingOptions?: PresetTypesettingOptions<I, O>
+}
+
+export type TexPresetProps<O extends MathOutputFormat> = MathJaxPresetProps<"tex", O> & {
+    // the TeX packages to use instead of the default ones of MathJax
+    packages?: TexPackage[]
+}
+
+/* the output is only inferred from the output prop so that typesetting functions for another output than the one of
+the preset are rejected */
+export type OutputPresetProps<I extends MathInputFormat, O extends MathOutputFormat = MathOutputFormat> =
+    Omit<MathJaxPresetProps<I, O>, "typesettingOptions"> & {
+        // defaults to "chtml"
+        output?: O
+        typesettingOptions?: PresetTypesettingOptions<I, FormatOf<O>>
+    }
+
+const PresetContext = <I extends MathInputFormat, O extends MathOutputFormat>({
+    input,
+    output,
+    packages,
+    config,
+    src,
+    typesettingOptions,
+    ...rest
+}: MathJaxPresetProps<I, O> & { input: I; output: O; packages?: TexPackage[] }) => {
+    const preset = createMathJaxConfig<MathInputFormat, MathOutputFormat>({ input, output, packages, config })
+    return (
+        <MathJaxContext
+            {...rest}
+            config={preset.config}
+            src={src ?? preset.src}
+            typesettingOptions={typesettingOptions ?? preset.typesettingOptions}
+        />
+    )
+}
+
+// MathJaxContext for TeX typeset as SVG, which needs no fonts
+export const TexSvgContext: FC<TexPresetProps<"svg">> = (props) => <PresetContext {...props} input="tex" output="svg" />
+
+// MathJaxContext for TeX typeset as HTML with CSS (CHTML)
+export const TexChtmlContext: FC<TexPresetProps<"chtml">> = (props) =>
+    <PresetContext {...props} input="tex" output="chtml" />
+
+// MathJaxContext for AsciiMath, which MathJax loads along with the output with its component loader
+export const AsciiMathContext = <O extends MathOutputFormat = "chtml">({
+    output = "chtml" as O,
+    ...rest
+}: OutputPresetProps<"asciimath", O>) => <PresetContext {...rest} input="asciimath" output={output} />
+
+// MathJaxContext for MathML
+export const MathMLContext = <O extends MathOutputFormat = "chtml">({
+    output = "chtml" as O,
+    ...rest
+}: OutputPresetProps<"mathml", O>) => <PresetContext {...rest} input="mathml" output={output} />
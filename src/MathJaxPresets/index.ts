@@ -0,0 +1,17 @@
+export {
+    createMathJaxConfig,
+    MathJaxConfigOptions,
+    MathJaxPresetConfig,
+    MathOutputFormat,
+    PresetTypesettingFunction,
+    TexPackage
+} from "./MathJaxConfigBuilder"
+export {
+    TexSvgContext,
+    TexChtmlContext,
+    AsciiMathContext,
+    MathMLContext,
+    MathJaxPresetProps,
+    TexPresetProps,
+    OutputPresetProps
+} from "./MathJaxPresets"
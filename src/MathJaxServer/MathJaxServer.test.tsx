@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+// @ts-ignore
+import React from "react"
+import { renderToString } from "react-dom/server"
+import MathJaxContext from "../MathJaxContext"
+import MathJax from "../MathJax"
+import { createServerRenderer } from "./MathJaxServer"
+
+const math = "\\frac{10}{5}"
+
+it("typesets math with render mode pre during server side rendering", () => {
+    const renderer = createServerRenderer()
+    const html = renderToString(
+        <MathJaxContext ssr={renderer}>
+            <MathJax renderMode="pre" text={math} typesettingOptions={{ fn: "tex2chtml" }} />
+        </MathJaxContext>
+    )
+    expect(html).toContain("data-mathjax-ssr")
+    expect(html).toContain("<mjx-container")
+    expect(html).toContain("<mjx-mfrac")
+    expect(renderer.styleSheet()).toContain("mjx-container")
+}, 15000)
+
+it("typesets delimited math in string children with render mode post during server side rendering", () => {
+    const html = renderToString(
+        <MathJaxContext ssr={createServerRenderer()} hideUntilTypeset="first">
+            <MathJax inline>{`Fraction: \\(${math}\\) and 1 < 2`}</MathJax>
+        </MathJaxContext>
+    )
+    expect(html).toContain("Fraction: <mjx-container")
+    expect(html).toContain("and 1 &lt; 2")
+    expect(html).not.toContain("hidden")
+}, 15000)
+
+it("converts to svg and mml with the corresponding typesetting functions", () => {
+    const renderer = createServerRenderer()
+    expect(renderer.convert(math, "tex2svg", { display: true })).toContain("<svg")
+    expect(renderer.convert("x^2", "asciimath2mml", { display: false })).toContain("<msup>")
+}, 15000)
+
+it("renders content as is when no renderer is given", () => {
+    const html = renderToString(
+        <MathJaxContext ssr>
+            <MathJax>{`\\(${math}\\)`}</MathJax>
+        </MathJaxContext>
+    )
+    expect(html).not.toContain("data-mathjax-ssr")
+    expect(html).toContain(math)
+}, 15000)
+
+it("renders the output as React elements with React output during server side rendering", () => {
+    const renderer = createServerRenderer()
+    const html = renderToString(
+        <MathJaxContext ssr={renderer} reactOutput>
+            <MathJax renderMode="pre" text={math} typesettingOptions={{ fn: "tex2chtml" }} />
+        </MathJaxContext>
+    )
+    expect(html).toContain("data-mathjax-ssr")
+    expect(html).toContain("<mjx-container class=\"MathJax\"")
+    expect(html).toContain("<mjx-mfrac")
+    expect(renderer.convertToTree("x^2", "asciimath2mml", { display: false })).toMatchObject({ tag: "math" })
+}, 15000)
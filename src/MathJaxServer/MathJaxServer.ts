@@ -0,0 +1,127 @@
+import { mathjax } from "mathjax-full/js/mathjax"
+import { CHTML } from "mathjax-full/js/output/chtml"
+import { SVG } from "mathjax-full/js/output/svg"
+import { liteAdaptor, LiteAdaptor } from "mathjax-full/js/adaptors/liteAdaptor"
+import type { LiteElement } from "mathjax-full/js/adaptors/lite/Element"
+import { RegisterHTMLHandler } from "mathjax-full/js/handlers/html"
+import { STATE } from "mathjax-full/js/core/MathItem"
+import { SerializedMmlVisitor } from "mathjax-full/js/core/MmlTree/SerializedMmlVisitor"
+import type { MathDocument } from "mathjax-full/js/core/MathDocument"
+import type { MathJaxServerRenderer, TypesettingFunction } from "../MathJaxContext"
+import type { MathJax3Config, OptionList } from "../MathJax3"
+import type { MathJaxSpeech } from "../MathJaxSpeech"
+import { toOutputTree } from "../MathJaxContext/MathJaxConversion"
+import { createInputJax, withDefaults } from "../MathJaxFull"
+
+type ServerOutput = "chtml" | "svg"
+type ServerDocument = MathDocument<any, any, any>
+
+export interface ServerRendererOptions {
+    // semantic enrichment created with createSpeech from the MathJaxSpeech entry point, which labels math with speech
+    speech?: MathJaxSpeech
+}
+
+const INPUT_FORMATS: Record<string, string> = { tex: "TeX", mathml: "MathML", asciimath: "AsciiMath" }
+
+// the adaptor and handler are registered with MathJax globally so they are shared by all renderers
+let adaptor: LiteAdaptor
+let handler: ReturnType<typeof RegisterHTMLHandler>
+
+const getAdaptor = () => {
+    if(typeof adaptor === "undefined") {
+        adaptor = liteAdaptor()
+        handler = RegisterHTMLHandler(adaptor)
+    }
+    return adaptor
+}
+
+// with speech, documents are created by the registered handler with its document class extended
+const createDocument = (html: string, options: OptionList, speech?: MathJaxSpeech): ServerDocument => {
+    if(typeof speech === "undefined") return mathjax.document(html, options)
+    const extended = Object.create(handler)
+    extended.documentClass = speech.extend(handler.documentClass, adaptor)
+    return extended.create(html, { ...options, ...speech.options })
+}
+
+const parseTypesettingFunction = (fn: TypesettingFunction) => {
+    const match = fn.match(/^(tex|mathml|asciimath)2(chtml|svg|mml)(Promise)?$/)
+    if(match === null) throw Error(`Unknown typesetting function '${fn}'`)
+    return { format: INPUT_FORMATS[match[1]], output: match[2] as ServerOutput | "mml" }
+}
+
+/**
+ * Creates a renderer which typesets math synchronously on the server with mathjax-full and the lite DOM adaptor. The
+ * renderer is passed to MathJaxContext via its ssr prop during server side rendering. Since the renderer collects the
+ * styles needed by everything it has typeset, a new renderer should be created for every rendered page.
+ */
+export const createServerRenderer = (
+    initialConfig: MathJax3Config = {},
+    { speech }: ServerRendererOptions = {}
+): MathJaxServerRenderer => {
+    const config = withDefaults(initialConfig)
+    const documents: Partial<Record<ServerOutput, ServerDocument>> = {}
+    const defaultOutput: ServerOutput =
+        typeof initialConfig.svg !== "undefined" && typeof initialConfig.chtml === "undefined" ? "svg" : "chtml"
+
+    const getDocument = (output: ServerOutput) => {
+        if(typeof documents[output] === "undefined") {
+            getAdaptor()
+            const outputJax = output === "svg"
+                ? new SVG({ fontCache: "local", ...(config.svg || {}) })
+                : new CHTML(config.chtml)
+            documents[output] = createDocument("<html><head></head><body></body></html>", {
+                ...(config.options || {}),
+                InputJax: createInputJax(config),
+                OutputJax: outputJax
+            }, speech)
+        }
+        return documents[output]!
+    }
+
+    // the output is MathML markup or a node of the lite DOM
+    const convertToOutput = (text: string, fn: TypesettingFunction, options: OptionList) => {
+        const { format, output } = parseTypesettingFunction(fn)
+        getAdaptor()
+        if(output === "mml") {
+            const mml = getDocument(defaultOutput).convert(text, { ...options, format, end: STATE.CONVERT })
+            return new SerializedMmlVisitor().visitTree(mml) as string
+        }
+        return getDocument(output).convert(text, { ...options, format }) as LiteElement
+    }
+
+    const convert = (text: string, fn: TypesettingFunction, options: OptionList) => {
+        const output = convertToOutput(text, fn, options)
+        return typeof output === "string" ? output : getAdaptor().outerHTML(output)
+    }
+
+    const convertToTree = (text: string, fn: TypesettingFunction, options: OptionList) =>
+        toOutputTree(getAdaptor(), convertToOutput(text, fn, options))
+
+    const typeset = (html: string) => {
+        const lite = getAdaptor()
+        const document = getDocument(defaultOutput)
+        const container = lite.firstChild(
+            lite.body(lite.parse(`<span>${html}</span>`, "text/html"))
+        ) as LiteElement
+        lite.append(lite.body(document.document), container)
+        try {
+            document.options.elements = [container]
+            document.reset()
+            document.render()
+            return lite.innerHTML(container)
+        }
+        finally {
+            lite.remove(container)
+            document.clear()
+        }
+    }
+
+    const styleSheet = () => {
+        const lite = getAdaptor()
+        return (Object.keys(documents) as ServerOutput[])
+            .map((output) => lite.textContent(documents[output]!.outputJax.styleSheet(documents[output]!)))
+            .join("\n")
+    }
+
+    return { convert, convertToTree, typeset, styleSheet }
+}
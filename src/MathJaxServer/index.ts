@@ -0,0 +1 @@
+export { createServerRenderer, ServerRendererOptions } from "./MathJaxServer"
@@ -0,0 +1,22 @@
+/**
+ * @jest-environment node
+ */
+// @ts-ignore
+import React from "react"
+import { renderToString } from "react-dom/server"
+import MathJaxContext from "../MathJaxContext"
+import MathJax from "../MathJax"
+import { createServerRenderer } from "../MathJaxServer"
+import { createSpeech } from "./MathJaxSpeech"
+
+it("labels math typeset on the server with the speech from the semantic enrichment", () => {
+    const renderer = createServerRenderer({}, { speech: createSpeech() })
+    const html = renderToString(
+        <MathJaxContext ssr={renderer}>
+            <MathJax renderMode="pre" text="x^2" typesettingOptions={{ fn: "tex2chtml" }} />
+            <MathJax>{"\\(\\frac{1}{2}\\)"}</MathJax>
+        </MathJaxContext>
+    )
+    expect(html).toContain('aria-label="x squared"')
+    expect(html).toContain('aria-label="one half"')
+})
@@ -0,0 +1,43 @@
+// the speech rule engine of the package is made available to the semantic enrichment before it is imported
+import "mathjax-full/js/a11y/sre-node"
+import { EnrichedMathDocumentMixin } from "mathjax-full/js/a11y/semantic-enrich"
+import { MathML } from "mathjax-full/js/input/mathml"
+import type { OptionList } from "../MathJax3"
+
+export interface SpeechOptions {
+    // one of the locales of the speech rule engine, such as "en", "de" or "fr"
+    locale?: string
+    // the speech rules, "mathspeak" or "clearspeak"
+    domain?: string
+    // the style of the speech rules, such as "default", "brief" or "sbrief" for mathspeak
+    style?: string
+}
+
+/**
+ * Semantic enrichment of MathJax built from the classes of mathjax-full, which adds the speech of every piece of math
+ * to its output. Created with createSpeech and passed to createServerRenderer.
+ */
+export interface MathJaxSpeech {
+    // returns the class of MathJax documents extended with semantic enrichment
+    extend: (documentClass: any, adaptor: any) => any
+    // options for the extended documents
+    options: OptionList
+}
+
+/**
+ * Creates semantic enrichment with the speech rule engine bundled with mathjax-full rather than the one MathJax loads
+ * from its CDN, which reads its locales from the package and thereby only works outside of the browser. In the
+ * browser, the local loader enriches math with the speech rule engine served along with the page instead.
+ */
+export const createSpeech = ({
+    locale = "en",
+    domain = "mathspeak",
+    style = "default"
+}: SpeechOptions = {}): MathJaxSpeech => ({
+    extend: (documentClass, adaptor) => {
+        const mmlJax = new MathML()
+        mmlJax.setAdaptor(adaptor)
+        return EnrichedMathDocumentMixin(documentClass, mmlJax)
+    },
+    options: { enableEnrichment: true, sre: { speech: "shallow", locale, domain, style } }
+})
@@ -0,0 +1 @@
+export { createSpeech, MathJaxSpeech, SpeechOptions } from "./MathJaxSpeech"
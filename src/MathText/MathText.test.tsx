@@ -0,0 +1,64 @@
+// @ts-ignore
+import React from "react"
+import { render, waitFor } from "@testing-library/react"
+import { MathJaxContext, MathText } from "../index"
+import { createLocalLoader } from "../MathJaxLocal"
+
+const loader = createLocalLoader({ output: "chtml" })
+const config = { startup: { typeset: false } }
+
+const getComponent = (text: string) => (
+    <MathJaxContext loader={loader} config={config}>
+        <MathText id="text" text={text} />
+    </MathJaxContext>
+)
+
+it("renders text as is and converts every piece of math on its own", async () => {
+    const { container, rerender } = render(getComponent("Let $x$ and \\(y\\) cost \\$2 and `z`."))
+    const wrapper = container.querySelector("#text")!
+    await waitFor(() => expect(wrapper.querySelectorAll("mjx-container")).toHaveLength(3), { timeout: 10000 })
+    const textNodes = Array.from(wrapper.childNodes).filter((node) => node.nodeType === Node.TEXT_NODE)
+    expect(textNodes.map((node) => node.textContent)).toEqual(["Let ", " and ", " cost $2 and ", "."])
+    // the AsciiMath is converted with the AsciiMath input processor
+    expect(wrapper.querySelectorAll("mjx-container")[2].querySelector("mjx-c.mjx-c1D467")).not.toBeNull()
+
+    rerender(getComponent("Now $$a$$ only"))
+    await waitFor(() => expect(wrapper.querySelector("mjx-container[display='true']")).not.toBeNull())
+    expect(wrapper.querySelectorAll("mjx-container")).toHaveLength(1)
+    expect(wrapper.textContent).toMatch(/^Now .* only$/)
+}, 15000)
+
+it("typesets math which has changed even if it is not dynamic", async () => {
+    const getStaticComponent = (text: string) => (
+        <MathJaxContext loader={loader} config={config}>
+            <MathText id="text" text={text} dynamic={false} />
+        </MathJaxContext>
+    )
+    const { container, rerender } = render(getStaticComponent("$x$ and $y$"))
+    const wrapper = container.querySelector("#text")!
+    await waitFor(() => expect(wrapper.querySelectorAll("mjx-container")).toHaveLength(2), { timeout: 10000 })
+    const unchanged = wrapper.querySelector("mjx-container")
+
+    rerender(getStaticComponent("$x$ and $z$"))
+    await waitFor(() => expect(wrapper.querySelector("mjx-c.mjx-c1D467")).not.toBeNull())
+    expect(wrapper.querySelector("mjx-c.mjx-c1D466")).toBeNull()
+    // math which has not changed is not typeset again
+    expect(wrapper.querySelector("mjx-container")).toBe(unchanged)
+}, 15000)
+
+it("typesets dynamic math which has changed in the same MathJax component", async () => {
+    const getDynamicComponent = (text: string) => (
+        <MathJaxContext loader={loader} config={config}>
+            <MathText id="text" text={text} dynamic />
+        </MathJaxContext>
+    )
+    const { container, rerender } = render(getDynamicComponent("Let $x$"))
+    const wrapper = container.querySelector("#text")!
+    await waitFor(() => expect(wrapper.querySelector("mjx-c.mjx-c1D465")).not.toBeNull(), { timeout: 10000 })
+    const math = wrapper.querySelector("span")
+
+    rerender(getDynamicComponent("Let $x^2$"))
+    await waitFor(() => expect(wrapper.querySelector("mjx-msup")).not.toBeNull())
+    // the math is not rendered from scratch, which would make the text around it jump
+    expect(wrapper.querySelector("span")).toBe(math)
+}, 15000)
@@ -0,0 +1,131 @@
+import React, { ComponentPropsWithoutRef, FC, ReactNode, useContext } from "react"
+import MathJax from "../MathJax"
+import { MathJaxBaseContext, MathJaxOverrideableProps, TypesettingFunction } from "../MathJaxContext"
+import type { MathJaxError } from "../MathJaxContext/MathJaxError"
+
+export interface MathTextDelimiter {
+    left: string
+    right: string
+    // whether the math is display math (true) or inline math (false)
+    display?: boolean
+    format?: "tex" | "asciimath"
+}
+
+export interface MathTextProps extends Omit<MathJaxOverrideableProps, "renderMode" | "typesettingOptions"> {
+    text: string
+    delimiters?: MathTextDelimiter[]
+    // defaults to the output of the function in the typesettingOptions of the MathJaxContext, otherwise "chtml"
+    output?: "chtml" | "svg"
+    dynamic?: boolean
+    errorFallback?: (error: MathJaxError) => ReactNode
+}
+
+type Segment = { math: false; text: string } | { math: true; text: string; delimiter: MathTextDelimiter }
+
+export const DEFAULT_DELIMITERS: MathTextDelimiter[] = [
+    { left: "$$", right: "$$", display: true },
+    { left: "\\[", right: "\\]", display: true },
+    { left: "$", right: "$" },
+    { left: "\\(", right: "\\)" },
+    { left: "`", right: "`", format: "asciimath" }
+]
+
+/* splits the text into plain text and math, the longest left delimiter matching at a position is used and a left
+delimiter preceded by a backslash (e.g. \$) is shown as is, without the backslash */
+const splitMathText = (text: string, delimiters: MathTextDelimiter[]): Segment[] => {
+    const byLength = [...delimiters].sort((a, b) => b.left.length - a.left.length)
+    const segments: Segment[] = []
+    let plain = ""
+    let index = 0
+    while(index < text.length) {
+        const escaped = text[index] === "\\" &&
+            byLength.some(({ left }) => left[0] !== "\\" && text.startsWith(left, index + 1))
+        if(escaped) {
+            plain += text[index + 1]
+            index += 2
+            continue
+        }
+        const delimiter = byLength.find(({ left }) => text.startsWith(left, index))
+        const end = delimiter ? text.indexOf(delimiter.right, index + delimiter.left.length) : -1
+        if(delimiter && end > index + delimiter.left.length) {
+            if(plain.length > 0) segments.push({ math: false, text: plain })
+            plain = ""
+            segments.push({ math: true, text: text.substring(index + delimiter.left.length, end), delimiter })
+            index = end + delimiter.right.length
+        } else {
+            plain += text[index]
+            index++
+        }
+    }
+    if(plain.length > 0) segments.push({ math: false, text: plain })
+    return segments
+}
+
+/* keys the pieces of math by their delimiters and source, along with how many times the same math occurs before, so
+that math which changes gets a new MathJax component, which typesets it even if it is not dynamic; dynamic math keeps
+being keyed by its index instead since a new component for every change, such as every keystroke while editing, would
+render the math from scratch and make the text jump */
+const keyMath = (segments: Segment[]) => {
+    const occurrences = new Map<string, number>()
+    return segments.map((segment) => {
+        if(!segment.math) return ""
+        const math = JSON.stringify([segment.delimiter.left, segment.delimiter.right, segment.text])
+        const occurrence = occurrences.get(math) ?? 0
+        occurrences.set(math, occurrence + 1)
+        return `${math}${occurrence}`
+    })
+}
+
+/**
+ * Text mixed with math, in which the plain text is rendered by React and every piece of math is converted on its own
+ * with render mode "pre", so that MathJax never changes the parts of the page which React renders.
+ */
+const MathText: FC<MathTextProps & ComponentPropsWithoutRef<"span">> = ({
+    text,
+    delimiters = DEFAULT_DELIMITERS,
+    output,
+    hideUntilTypeset,
+    onError,
+    lazy,
+    dynamic,
+    errorFallback,
+    suspense,
+    ...rest
+}) => {
+    const mjContext = useContext(MathJaxBaseContext)
+    const contextFn = mjContext?.typesettingOptions?.fn
+    const usedOutput = output ?? (contextFn && contextFn.indexOf("svg") !== -1 ? "svg" : "chtml")
+    const contextOptions = mjContext?.typesettingOptions?.options
+    // the same default as the MathJax component, which only typesets changed math again when it is dynamic
+    const usedDynamic = dynamic === false ? false : (dynamic || process.env.NODE_ENV !== "production")
+    const segments = splitMathText(text, delimiters)
+    const keys = usedDynamic ? segments.map((_, index) => index) : keyMath(segments)
+
+    return (
+        <span {...rest}>
+            {segments.map((segment, index) => segment.math
+                ? (
+                    <MathJax
+                        key={keys[index]}
+                        inline={!segment.delimiter.display}
+                        renderMode="pre"
+                        text={segment.text}
+                        typesettingOptions={{
+                            fn: `${segment.delimiter.format ?? "tex"}2${usedOutput}` as TypesettingFunction,
+                            options: contextOptions
+                        }}
+                        hideUntilTypeset={hideUntilTypeset}
+                        onError={onError}
+                        lazy={lazy}
+                        dynamic={dynamic}
+                        errorFallback={errorFallback}
+                        suspense={suspense}
+                    />
+                )
+                : segment.text
+            )}
+        </span>
+    )
+}
+
+export default MathText
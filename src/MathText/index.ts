@@ -0,0 +1 @@
+export { default as MathText, default, MathTextProps, MathTextDelimiter, DEFAULT_DELIMITERS } from "./MathText"
@@ -1,9 +1,52 @@
-export { default as MathJax, MathJaxProps } from "./MathJax"
+export {
+    default as MathJax,
+    MathJaxProps,
+    MathJaxHandle,
+    MathJaxResponsiveOptions,
+    MathJaxOverflow
+} from "./MathJax"
+export { default as EquationRef, EquationRefProps } from "./EquationRef"
+export { default as MathText, MathTextProps, MathTextDelimiter, DEFAULT_DELIMITERS } from "./MathText"
 export {
     default as MathJaxContext,
     MathJaxContextProps,
+    MathJaxLazyOptions,
     MathJaxBaseContext,
-    MathJaxSubscriberProps
+    resetFailedLoad,
+    validate,
+    MathJaxSubscriberProps,
+    MathJaxServerRenderer,
+    MathJaxLocalLoader,
+    TypesettingFunction,
+    MathJaxError,
+    MathJaxErrorPhase,
+    ConversionCacheStats,
+    EquationLabel,
+    MathJaxOutputNode,
+    MathJaxMetricsEvent,
+    MathJaxMetricsListener,
+    MathJaxStats,
+    MathDiagnostic,
+    MathInputFormat,
+    MathValidationOptions
 } from "./MathJaxContext"
+export {
+    createMathJaxConfig,
+    MathJaxConfigOptions,
+    MathJaxPresetConfig,
+    MathOutputFormat,
+    PresetTypesettingFunction,
+    TexPackage,
+    TexSvgContext,
+    TexChtmlContext,
+    AsciiMathContext,
+    MathMLContext,
+    MathJaxPresetProps,
+    TexPresetProps,
+    OutputPresetProps
+} from "./MathJaxPresets"
+export { useMathJax, MathJaxApi, MathJaxConvertOptions } from "./useMathJax"
+export { useMathJaxStats } from "./useMathJaxStats"
+export { useMathValidation, MathValidation } from "./useMathValidation"
 export { MathJax2Config, MathJax2Object } from "./MathJax2"
 export { MathJax3Object, MathJax3Config, OptionList } from "./MathJax3"
@@ -0,0 +1,92 @@
+import { act } from "react-dom/test-utils"
+import type { MathJaxMetricsEvent } from "../MathJaxContext"
+import { discardLoadedMathJax } from "../MathJaxContext/MathJaxContext"
+import type { MathJax3Object } from "../MathJax3"
+
+export interface WaitForTypesetOptions {
+    // milliseconds to wait before rejecting
+    timeout?: number
+}
+
+// building MathJax from mathjax-full takes a while, particularly in the first test of a test file
+const DEFAULT_TIMEOUT = 10000
+const POLL_INTERVAL = 10
+
+// number of test contexts loading MathJax and the ids of the MathJax components typesetting in them
+let loading = 0
+const typesetting = new Set<number>()
+
+/* keeps track of what the test contexts are doing so that waitForTypeset knows when they are done; nested contexts
+receive the same events and start receiving them only after they have mounted, so an end may come without a start */
+export const trackMetrics = (event: MathJaxMetricsEvent) => {
+    if(event.type === "loadStart") loading++
+    else if(event.type === "loadEnd") loading = Math.max(loading - 1, 0)
+    else if(event.type === "typesetStart") typesetting.add(event.id)
+    else if(event.type === "typesetEnd") typesetting.delete(event.id)
+}
+
+/**
+ * Discards MathJax so that the next MathJaxContext loads it again, which is typically done after each test so that
+ * tests don't depend on each other. All contexts must have been unmounted before, which the cleanup of React Testing
+ * Library does after each test.
+ */
+export const resetMathJax = () => {
+    discardLoadedMathJax()
+    delete (window as any).MathJax
+    loading = 0
+    typesetting.clear()
+}
+
+/**
+ * Resolves when all TestMathJaxContexts have loaded MathJax and all MathJax components in them have been typeset. The
+ * waiting is done within act so that the updates of the components are applied before it resolves. Rejects if this
+ * has not happened within the timeout.
+ */
+export const waitForTypeset = ({ timeout = DEFAULT_TIMEOUT }: WaitForTypesetOptions = {}): Promise<void> => {
+    let timedOut = false
+    // the thenable returned by act is not a promise in all versions of React
+    return Promise.resolve(act(() => new Promise<void>((res) => {
+        const start = Date.now()
+        const check = () => {
+            if(loading === 0 && typesetting.size === 0) res()
+            else if(Date.now() - start > timeout) {
+                timedOut = true
+                res()
+            } else window.setTimeout(check, POLL_INTERVAL)
+        }
+        // typesetting which is requested right away, such as when MathJax is reconfigured, is waited for as well
+        window.setTimeout(check, 0)
+    }))).then(() => {
+        if(timedOut) return Promise.reject(Error(`MathJax did not finish typesetting within ${timeout} ms`))
+    })
+}
+
+// the MathML of a single piece of typeset math, the element being its output
+const mathMLOf = (mathJax: MathJax3Object | undefined, element: Element) => {
+    if(element.localName === "math") return element.outerHTML
+    const item = mathJax?.startup.document.getMathItemsWithin([element])
+        .find((candidate: any) => candidate.typesetRoot === element)
+    if(typeof item !== "undefined") return mathJax!.startup.toMML(item.root)
+    const assistive = element.querySelector("mjx-assistive-mml > math")
+    if(assistive !== null) return assistive.outerHTML
+    throw Error(
+        "The MathML of math converted with render mode 'pre' is only available with MathML output or with " +
+        "accessibility enabled"
+    )
+}
+
+/**
+ * Returns the MathML of all math typeset in the element, in document order. Math typeset with render mode "post" is
+ * serialized from the internal MathML of MathJax, whereas math converted with render mode "pre" keeps no MathML
+ * unless it was converted to MathML or made accessible.
+ */
+export const getRenderedMathML = (element: Element): string[] => {
+    // the MathJax object of the page, which is set once MathJax 3 has finished loading
+    const loaded = (window as any).MathJax
+    const mathJax: MathJax3Object | undefined = loaded?.startup?.document ? loaded : undefined
+    const outputs = [element, ...Array.from(element.querySelectorAll("mjx-container, math"))]
+        .filter((candidate) => candidate.localName === "mjx-container" || candidate.localName === "math")
+        // MathML inside the output of MathJax, such as assistive MathML, belongs to that output
+        .filter((candidate) => (candidate.parentElement?.closest("mjx-container") ?? null) === null)
+    return outputs.map((output) => mathMLOf(mathJax, output))
+}
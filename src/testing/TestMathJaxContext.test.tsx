@@ -0,0 +1,38 @@
+// @ts-ignore
+import React from "react"
+import { render } from "@testing-library/react"
+import MathJax from "../MathJax"
+import { getRenderedMathML, resetMathJax, TestMathJaxContext, waitForTypeset } from "./index"
+
+it("typesets for real without a network and waits for the typesetting", async () => {
+    const { container } = render(
+        <TestMathJaxContext>
+            <MathJax>{"\\(\\frac{1}{2}\\)"}</MathJax>
+            <MathJax renderMode="pre" text="x^2" typesettingOptions={{ fn: "tex2svg" }} accessibility />
+        </TestMathJaxContext>
+    )
+    await waitForTypeset()
+    expect(container.querySelectorAll("mjx-container svg")).toHaveLength(2)
+    expect(document.querySelector("script")).toBeNull()
+    const mathML = getRenderedMathML(container)
+    expect(mathML).toHaveLength(2)
+    expect(mathML[0]).toContain("<mfrac>")
+    expect(mathML[1]).toContain("<msup>")
+}, 15000)
+
+it("loads MathJax again after it has been reset", async () => {
+    const { unmount } = render(<TestMathJaxContext />)
+    await waitForTypeset()
+    const first = (window as any).MathJax
+    unmount()
+    resetMathJax()
+    expect((window as any).MathJax).toBeUndefined()
+    const { container } = render(
+        <TestMathJaxContext config={{ tex: { macros: { half: "\\frac{1}{2}" } } }}>
+            <MathJax>{"\\(\\half\\)"}</MathJax>
+        </TestMathJaxContext>
+    )
+    await waitForTypeset()
+    expect((window as any).MathJax).not.toBe(first)
+    expect(getRenderedMathML(container)[0]).toContain("<mfrac>")
+}, 15000)
@@ -0,0 +1,31 @@
+import React, { FC } from "react"
+import MathJaxContext, { MathJaxContextProps, MathJaxMetricsEvent } from "../MathJaxContext"
+import { createLocalLoader, LocalLoaderOptions } from "../MathJaxLocal"
+import { trackMetrics } from "./MathJaxTesting"
+
+export type TestMathJaxContextProps = Omit<
+    Extract<MathJaxContextProps, { version?: 3 }>,
+    "version" | "loader" | "src" | "timeout" | "retries" | "retryDelay" | "nonce" | "integrity" | "crossOrigin"
+> & LocalLoaderOptions
+
+/**
+ * MathJaxContext for tests which builds MathJax 3 from mathjax-full in the page instead of downloading it, so that
+ * math is typeset for real in jsdom without any network requests. SVG output is used unless another output is given
+ * since it needs no fonts. The page is not typeset at startup unless enabled in the configuration.
+ */
+const TestMathJaxContext: FC<TestMathJaxContextProps> = ({ output, config, onMetrics, ...rest }) => {
+    const onTestMetrics = (event: MathJaxMetricsEvent) => {
+        trackMetrics(event)
+        if(onMetrics) onMetrics(event)
+    }
+    return (
+        <MathJaxContext
+            {...rest}
+            config={{ ...config, startup: { typeset: false, ...config?.startup } }}
+            loader={createLocalLoader({ output })}
+            onMetrics={onTestMetrics}
+        />
+    )
+}
+
+export default TestMathJaxContext
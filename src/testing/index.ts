@@ -0,0 +1,2 @@
+export { default as TestMathJaxContext, TestMathJaxContextProps } from "./TestMathJaxContext"
+export { resetMathJax, waitForTypeset, getRenderedMathML, WaitForTypesetOptions } from "./MathJaxTesting"
@@ -0,0 +1 @@
+export { useMathJax, MathJaxApi, MathJaxConvertOptions } from "./useMathJax"
@@ -0,0 +1,121 @@
+// @ts-ignore
+import React, { FC, useEffect } from "react"
+import { render, waitFor } from "@testing-library/react"
+import { MathJaxBaseContext, MathJaxSubscriberProps } from "../MathJaxContext"
+import { createConversionCache } from "../MathJaxContext/ConversionCache"
+import { MathJaxApi, useMathJax } from "./useMathJax"
+
+const math = "\\frac{10}{5}"
+
+const Consumer: FC<{ onApi: (api: MathJaxApi) => void }> = ({ onApi }) => {
+    const api = useMathJax()
+    useEffect(() => {
+        onApi(api)
+    })
+    return <>{api.ready ? "ready" : "loading"}</>
+}
+
+const renderWithContext = (value: MathJaxSubscriberProps, onApi: (api: MathJaxApi) => void = () => undefined) =>
+    render(
+        <MathJaxBaseContext.Provider value={value}>
+            <Consumer onApi={onApi} />
+        </MathJaxBaseContext.Provider>
+    )
+
+it("throws when used outside of a MathJaxContext", () => {
+    const originalConsoleError = console.error
+    console.error = jest.fn()
+    try {
+        expect(() => render(<Consumer onApi={() => undefined} />)).toThrow("MathJaxContext")
+    }
+    finally {
+        console.error = originalConsoleError
+    }
+})
+
+it("becomes ready after startup and converts math with the typesetting function of the context", async () => {
+    const tex2svg = jest.fn((text: string) => {
+        const output = document.createElement("mjx-container")
+        output.textContent = text
+        return output
+    })
+    const mathJax = {
+        startup: { promise: Promise.resolve(), document: { clear: jest.fn(), updateDocument: jest.fn() } },
+        tex2svg
+    }
+    let api: MathJaxApi | undefined
+    const { container } = renderWithContext(
+        { version: 3, promise: Promise.resolve(mathJax as any), typesettingOptions: { fn: "tex2svg" } },
+        (current) => api = current
+    )
+    await waitFor(() => expect(container.textContent).toBe("ready"))
+    await expect(api!.convert(math, { display: false })).resolves.toBe(`<mjx-container>${math}</mjx-container>`)
+    expect(tex2svg).toHaveBeenCalledWith(math, { display: false })
+    expect(mathJax.startup.document.updateDocument).toHaveBeenCalled()
+})
+
+it("rejects conversion with MathJax version 2", async () => {
+    let api: MathJaxApi | undefined
+    const { container } = renderWithContext(
+        { version: 2, promise: Promise.resolve({} as any) },
+        (current) => api = current
+    )
+    await waitFor(() => expect(container.textContent).toBe("ready"))
+    await expect(api!.convert(math, { fn: "tex2chtml" })).rejects.toMatchObject({ phase: "conversion" })
+    await expect(api!.validate(math)).rejects.toMatchObject({ phase: "conversion" })
+})
+
+it("converts identical math only once when the context caches conversions", async () => {
+    const tex2svg = jest.fn((text: string) => {
+        const output = document.createElement("mjx-container")
+        output.textContent = text
+        return output
+    })
+    const mathJax = {
+        startup: { promise: Promise.resolve(), document: { clear: jest.fn(), updateDocument: jest.fn() } },
+        tex2svg
+    }
+    let api: MathJaxApi | undefined
+    const { container } = renderWithContext(
+        {
+            version: 3,
+            promise: Promise.resolve(mathJax as any),
+            typesettingOptions: { fn: "tex2svg" },
+            cache: createConversionCache(2)
+        },
+        (current) => api = current
+    )
+    await waitFor(() => expect(container.textContent).toBe("ready"))
+    const outputs = await Promise.all([api!.convert(math), api!.convert(math), api!.convert(math, { display: false })])
+    expect(outputs[0]).toBe(outputs[1])
+    expect(tex2svg).toHaveBeenCalledTimes(2)
+    expect(api!.getCacheStats()).toEqual({ hits: 1, misses: 2, size: 2, maxSize: 2 })
+    await api!.convert("x")
+    await api!.convert(math)
+    // the least recently used conversion was discarded
+    expect(tex2svg).toHaveBeenCalledTimes(4)
+    api!.clearCache()
+    expect(api!.getCacheStats()).toMatchObject({ size: 0 })
+})
+
+it("keeps the same functions while the context stays the same", async () => {
+    const apis: MathJaxApi[] = []
+    const value: MathJaxSubscriberProps = {
+        version: 3,
+        promise: Promise.resolve({ startup: { promise: Promise.resolve() } } as any),
+        cache: createConversionCache(2)
+    }
+    const { container, rerender } = renderWithContext(value, (current) => apis.push(current))
+    await waitFor(() => expect(container.textContent).toBe("ready"))
+    rerender(
+        <MathJaxBaseContext.Provider value={value}>
+            <Consumer onApi={(current) => apis.push(current)} />
+        </MathJaxBaseContext.Provider>
+    )
+    const [loading, ready, rendered] = apis
+    expect(ready.ready).toBe(true)
+    // the api only changed when it became ready
+    expect(rendered).toBe(ready)
+    for(const name of ["convert", "typeset", "clear", "validate", "getCacheStats", "clearCache"] as const)
+        expect(ready[name]).toBe(loading[name])
+})
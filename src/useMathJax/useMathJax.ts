@@ -0,0 +1,118 @@
+import { useCallback, useContext, useEffect, useMemo, useState } from "react"
+import { MathJaxBaseContext, TypesettingFunction } from "../MathJaxContext"
+import type { OptionList } from "../MathJax3"
+import type { ConversionCacheStats } from "../MathJaxContext/ConversionCache"
+import { convertMathToMarkup } from "../MathJaxContext/MathJaxConversion"
+import { createMathJaxError, MathJaxError, MathJaxErrorPhase } from "../MathJaxContext/MathJaxError"
+import { MathDiagnostic, MathValidationOptions, validateMath } from "../MathJaxContext/MathValidation"
+import { useTypesettingScheduler } from "../MathJaxContext/TypesettingScheduler"
+
+export interface MathJaxConvertOptions {
+    // defaults to the function in the typesettingOptions of the MathJaxContext
+    fn?: TypesettingFunction
+    // whether to convert as display math (true) or inline math (false)
+    display?: boolean
+    options?: Omit<OptionList, "display">
+}
+
+export interface MathJaxApi {
+    // whether MathJax has loaded and finished its startup
+    ready: boolean
+    version: 2 | 3
+    // converts math the same way as the MathJax component with render mode "pre" and resolves with the markup
+    convert: (text: string, options?: MathJaxConvertOptions) => Promise<string>
+    // typesets the elements the same way as the MathJax component with render mode "post"
+    typeset: (elements: HTMLElement[]) => Promise<void>
+    // removes math in the elements from the MathJax document, which should be done before removing typeset elements
+    clear: (elements: HTMLElement[]) => Promise<void>
+    // checks math with the configuration of the context and resolves with the problems found, none if it is valid
+    validate: (text: string, options?: MathValidationOptions) => Promise<MathDiagnostic[]>
+    // counters of the conversion cache of the MathJaxContext, undefined if caching is disabled
+    getCacheStats: () => ConversionCacheStats | undefined
+    clearCache: () => void
+}
+
+const failure = (error: MathJaxError) => Promise.reject(error)
+
+const notAvailable = (phase: MathJaxErrorPhase, capability: string) =>
+    failure({ phase, message: `${capability} is only available with MathJax 3, and version 2 is currently in use` })
+
+/**
+ * Hook for using MathJax imperatively with the MathJax object provided by the closest MathJaxContext. All functions
+ * reject with a MathJaxError if they fail. The functions only change along with the context, so they can be used as
+ * dependencies of effects.
+ */
+export const useMathJax = (): MathJaxApi => {
+    const mjContext = useContext(MathJaxBaseContext)
+    const scheduler = useTypesettingScheduler(mjContext)
+    const [ready, setReady] = useState(false)
+
+    if(typeof mjContext === "undefined")
+        throw Error("MathJax was not loaded, did you use the useMathJax hook outside of a MathJaxContext?")
+
+    useEffect(() => {
+        let mounted = true
+        const startup = mjContext.version === 3
+            ? mjContext.promise.then((mathJax) => mathJax.startup.promise)
+            : mjContext.promise
+        startup.then(
+            () => {
+                if(mounted) setReady(true)
+            },
+            // errors are reported by the MathJaxContext and when the functions of the hook are used
+            () => undefined
+        )
+        return () => {
+            mounted = false
+        }
+    }, [mjContext])
+
+    const convert = useCallback((text: string, { fn, display = true, options }: MathJaxConvertOptions = {}) => {
+        if(mjContext.version === 2) return notAvailable("conversion", "Conversion")
+        const usedFn = fn ?? mjContext.typesettingOptions?.fn
+        if(typeof usedFn === "undefined")
+            return failure({
+                phase: "conversion",
+                message: "Conversion requires 'fn' to be set in the options or in the typesettingOptions of the " +
+                    "MathJaxContext",
+                text
+            })
+        return convertMathToMarkup(
+            mjContext.promise,
+            text,
+            usedFn,
+            { ...(options ?? mjContext.typesettingOptions?.options ?? {}), display },
+            mjContext.cache
+        )
+    }, [mjContext])
+
+    const typeset = useCallback(
+        (elements: HTMLElement[]) =>
+            Promise.all(elements.map((element) => scheduler!.typeset(element))).then(() => undefined),
+        [scheduler]
+    )
+
+    const clear = useCallback((elements: HTMLElement[]) => {
+        if(mjContext.version === 2) return notAvailable("typeset", "Clearing typeset math")
+        return mjContext.promise
+            .then((mathJax) => mathJax.startup.promise.then(() => mathJax.typesetClear(elements)))
+            .catch((err) => Promise.reject(createMathJaxError("typeset", err)))
+    }, [mjContext])
+
+    const validate = useCallback((text: string, options?: MathValidationOptions) => {
+        if(mjContext.version === 2) return notAvailable("conversion", "Validation")
+        return mjContext.promise
+            .then((mathJax) => mathJax.startup.promise.then(() => validateMath(mathJax, text, options)))
+            .catch((err) => Promise.reject(createMathJaxError("conversion", err, text)))
+    }, [mjContext])
+
+    const getCacheStats = useCallback(() => mjContext.cache?.stats(), [mjContext])
+
+    const clearCache = useCallback(() => mjContext.cache?.clear(), [mjContext])
+
+    const version = mjContext.version
+    return useMemo(
+        () => ({ ready, version, convert, typeset, clear, validate, getCacheStats, clearCache }),
+        [ready, version, convert, typeset, clear, validate, getCacheStats, clearCache]
+    )
+}
@@ -0,0 +1 @@
+export { useMathJaxStats } from "./useMathJaxStats"
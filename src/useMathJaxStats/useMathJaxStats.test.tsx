@@ -0,0 +1,72 @@
+// @ts-ignore
+import React, { FC } from "react"
+import { render, waitFor } from "@testing-library/react"
+import MathJax from "../MathJax"
+import { MathJaxBaseContext, MathJaxMetricsEvent } from "../MathJaxContext"
+import { createConversionCache } from "../MathJaxContext/ConversionCache"
+import { createMathJaxMetrics } from "../MathJaxContext/MathJaxMetrics"
+import { useMathJaxStats } from "./useMathJaxStats"
+
+const math = "\\frac{10}{5}"
+
+const Stats: FC = () => {
+    const { typesets, failures, queueLength, cacheHits, cacheMisses } = useMathJaxStats()
+    return <span data-testid="stats">{JSON.stringify({ typesets, failures, queueLength, cacheHits, cacheMisses })}</span>
+}
+
+it("throws when used outside of a MathJaxContext", () => {
+    const originalConsoleError = console.error
+    console.error = jest.fn()
+    try {
+        expect(() => render(<Stats />)).toThrow("MathJaxContext")
+    }
+    finally {
+        console.error = originalConsoleError
+    }
+})
+
+it("aggregates the typesetting and cache events of the context", async () => {
+    const mathJax = {
+        startup: { promise: Promise.resolve(), document: { clear: jest.fn(), updateDocument: jest.fn() } },
+        tex2chtml: jest.fn((text: string) => {
+            const output = document.createElement("mjx-container")
+            output.textContent = text
+            return output
+        })
+    }
+    const metrics = createMathJaxMetrics()
+    const events: MathJaxMetricsEvent[] = []
+    metrics.subscribe((event) => events.push(event))
+    const { getByTestId } = render(
+        <MathJaxBaseContext.Provider
+            value={{
+                version: 3,
+                promise: Promise.resolve(mathJax as any),
+                renderMode: "pre",
+                typesettingOptions: { fn: "tex2chtml" },
+                cache: createConversionCache(10, metrics.cacheLookedUp),
+                metrics
+            }}
+        >
+            <MathJax text={math} typesettingOptions={{ fn: "tex2chtml" }} />
+            <MathJax text={math} typesettingOptions={{ fn: "tex2chtml" }} />
+            <Stats />
+        </MathJaxBaseContext.Provider>
+    )
+    await waitFor(() => expect(JSON.parse(getByTestId("stats").textContent!)).toEqual({
+        typesets: 2,
+        failures: 0,
+        queueLength: 0,
+        cacheHits: 1,
+        cacheMisses: 1
+    }))
+    expect(mathJax.tex2chtml).toHaveBeenCalledTimes(1)
+    expect(events.map(({ type }) => type).sort()).toEqual([
+        "cacheLookup", "cacheLookup", "typesetEnd", "typesetEnd", "typesetStart", "typesetStart"
+    ])
+    const ends = events.filter((event) => event.type === "typesetEnd")
+    ends.forEach((event) => expect(event).toMatchObject({ renderMode: "pre", superseded: false }))
+    expect(ends.map((event) => event.type === "typesetEnd" && event.id)[0])
+        .not.toBe(ends.map((event) => event.type === "typesetEnd" && event.id)[1])
+    expect(metrics.stats().maxDuration).toBeGreaterThanOrEqual(0)
+})
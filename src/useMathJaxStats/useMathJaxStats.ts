@@ -0,0 +1,25 @@
+import { useContext, useEffect, useState } from "react"
+import { MathJaxBaseContext, MathJaxStats } from "../MathJaxContext"
+import { INITIAL_STATS } from "../MathJaxContext/MathJaxMetrics"
+
+/**
+ * Hook which returns aggregate numbers of loading, typesetting and caching in the closest MathJaxContext. The component
+ * using it renders again every time the numbers change.
+ */
+export const useMathJaxStats = (): MathJaxStats => {
+    const mjContext = useContext(MathJaxBaseContext)
+    const metrics = mjContext?.metrics
+    const [stats, setStats] = useState(() => metrics?.stats() ?? INITIAL_STATS)
+
+    useEffect(() => {
+        if(typeof metrics === "undefined") return
+        // events may have been emitted between rendering and subscribing
+        setStats(metrics.stats())
+        return metrics.subscribe(() => setStats(metrics.stats()))
+    }, [metrics])
+
+    if(typeof mjContext === "undefined")
+        throw Error("MathJax was not loaded, did you use the useMathJaxStats hook outside of a MathJaxContext?")
+
+    return stats
+}
@@ -0,0 +1 @@
+export { useMathValidation, MathValidation } from "./useMathValidation"
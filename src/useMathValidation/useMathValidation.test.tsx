@@ -0,0 +1,76 @@
+// @ts-ignore
+import React, { FC } from "react"
+import { render, waitFor } from "@testing-library/react"
+import { MathJaxContext, validate } from "../MathJaxContext"
+import { discardLoadedMathJax } from "../MathJaxContext/MathJaxContext"
+import type { MathInputFormat } from "../MathJaxContext"
+import { createLocalLoader } from "../MathJaxLocal"
+import { MathValidation, useMathValidation } from "./useMathValidation"
+
+const Validated: FC<{ text: string; format?: MathInputFormat; onValidation: (validation: MathValidation) => void }> = ({
+    text,
+    format,
+    onValidation
+}) => {
+    onValidation(useMathValidation(text, { format }))
+    return null
+}
+
+const config = { startup: { typeset: false }, tex: { macros: { half: "\\frac{1}{2}" } } }
+
+it("validates math with the configuration of the context every time it changes", async () => {
+    let validation: MathValidation = { diagnostics: [], pending: true }
+    const onValidation = (current: MathValidation) => validation = current
+    const getContext = (text: string, format?: MathInputFormat) => (
+        <MathJaxContext loader={createLocalLoader()} config={config}>
+            <Validated text={text} format={format} onValidation={onValidation} />
+        </MathJaxContext>
+    )
+    const { rerender } = render(getContext("x^2 + \\half"))
+    expect(validation.valid).toBeUndefined()
+    await waitFor(() => expect(validation.valid).toBe(true), { timeout: 10000 })
+
+    rerender(getContext("\\frac{1}"))
+    expect(validation).toMatchObject({ valid: true, pending: true })
+    await waitFor(() => expect(validation.pending).toBe(false))
+    expect(validation.diagnostics).toEqual([
+        { message: "Missing argument for \\frac", id: "MissingArgFor", offset: 0, command: "\\frac" }
+    ])
+
+    rerender(getContext("x} + \\foo"))
+    await waitFor(() => expect(validation.pending).toBe(false))
+    expect(validation.valid).toBe(false)
+    expect(validation.diagnostics).toEqual([
+        { message: "Extra close brace or missing open brace", id: "ExtraCloseMissingOpen", offset: 1 },
+        { message: "Undefined control sequence \\foo", id: "UndefinedControlSequence", offset: 5, command: "\\foo" }
+    ])
+
+    // delimiters and line breaks are not macros but are known
+    rerender(getContext("\\langle x \\\\ \\foo"))
+    await waitFor(() => expect(validation.pending).toBe(false))
+    expect(validation.diagnostics).toEqual([
+        { message: "Undefined control sequence \\foo", id: "UndefinedControlSequence", offset: 13, command: "\\foo" }
+    ])
+
+    rerender(getContext("<math><mfoo></mfoo></math>", "mathml"))
+    await waitFor(() => expect(validation.pending).toBe(false))
+    expect(validation.valid).toBe(false)
+    expect(validation.diagnostics[0].message).toContain("mfoo")
+}, 15000)
+
+it("validates math outside of components without keeping the macros defined in it", async () => {
+    discardLoadedMathJax()
+    await expect(validate("x^2")).rejects.toMatchObject({ phase: "conversion", text: "x^2" })
+    let validation: MathValidation = { diagnostics: [], pending: true }
+    render(
+        <MathJaxContext loader={createLocalLoader()} config={config}>
+            <Validated text={"\\newcommand{\\foo}{x} \\foo + \\half"} onValidation={(current) => validation = current} />
+        </MathJaxContext>
+    )
+    await waitFor(() => expect(validation.valid).toBe(true), { timeout: 10000 })
+    expect(await validate("\\def\\baz{y} \\baz")).toEqual([])
+    expect(await validate("\\foo + \\baz", { format: "tex" })).toEqual([
+        { message: "Undefined control sequence \\foo", id: "UndefinedControlSequence", offset: 0, command: "\\foo" },
+        { message: "Undefined control sequence \\baz", id: "UndefinedControlSequence", offset: 7, command: "\\baz" }
+    ])
+}, 15000)
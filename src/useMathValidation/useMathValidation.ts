@@ -0,0 +1,62 @@
+import { useContext, useEffect, useState } from "react"
+import { MathJaxBaseContext } from "../MathJaxContext"
+import { createMathJaxError } from "../MathJaxContext/MathJaxError"
+import { MathDiagnostic, MathValidationOptions, validateMath } from "../MathJaxContext/MathValidation"
+
+export interface MathValidation {
+    // whether the math is valid, undefined until it has been validated for the first time
+    valid?: boolean
+    diagnostics: MathDiagnostic[]
+    // whether the math has changed since it was last validated, in which case the result is for the previous math
+    pending: boolean
+}
+
+interface ValidatedMath {
+    // the math and options the diagnostics were found for
+    key: string
+    diagnostics: MathDiagnostic[]
+}
+
+/**
+ * Hook which validates math with the MathJax object provided by the closest MathJaxContext every time it changes, for
+ * instance while it is being written. Only available with MathJax 3.
+ */
+export const useMathValidation = (
+    text: string,
+    { format = "tex", display = true }: MathValidationOptions = {}
+): MathValidation => {
+    const mjContext = useContext(MathJaxBaseContext)
+    const [validated, setValidated] = useState<ValidatedMath | null>(null)
+    const key = JSON.stringify([format, display, text])
+
+    useEffect(() => {
+        if(mjContext?.version !== 3) return
+        let current = true
+        const validation = mjContext.promise
+            .then((mathJax) => mathJax.startup.promise.then(() => validateMath(mathJax, text, { format, display })))
+        validation.then(
+            (diagnostics) => {
+                if(current) setValidated({ key, diagnostics })
+            },
+            (err) => {
+                // errors from loading MathJax are reported by the MathJaxContext
+                if(current && err?.phase !== "load")
+                    setValidated({ key, diagnostics: [{ message: createMathJaxError("conversion", err).message }] })
+            }
+        )
+        return () => {
+            current = false
+        }
+    }, [mjContext, key])
+
+    if(typeof mjContext === "undefined")
+        throw Error("MathJax was not loaded, did you use the useMathValidation hook outside of a MathJaxContext?")
+    if(mjContext.version === 2)
+        throw Error("Validation is only available with MathJax 3, and version 2 is currently in use")
+
+    return {
+        ...(validated !== null ? { valid: validated.diagnostics.length === 0 } : {}),
+        diagnostics: validated?.diagnostics ?? [],
+        pending: validated?.key !== key
+    }
+}